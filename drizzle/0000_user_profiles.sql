@@ -0,0 +1,9 @@
+CREATE TABLE IF NOT EXISTS "user_profiles" (
+	"user_id" text PRIMARY KEY NOT NULL,
+	"display_name" varchar(100),
+	"avatar_url" text,
+	"locale" varchar(35),
+	"timezone" varchar(64),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
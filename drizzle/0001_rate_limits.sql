@@ -0,0 +1,6 @@
+CREATE TABLE IF NOT EXISTS "rate_limits" (
+	"key" text PRIMARY KEY NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL,
+	"reset_at" timestamp with time zone NOT NULL,
+	"locked_until" timestamp with time zone
+);
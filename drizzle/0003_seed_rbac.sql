@@ -0,0 +1,21 @@
+-- Seed built-in roles and permissions.
+-- The first administrator has to be assigned directly in the database:
+--   INSERT INTO "user_roles" ("user_id", "role_id", "granted_by")
+--   SELECT '<better-auth user id>', "id", 'bootstrap' FROM "roles" WHERE "name" = 'admin';
+INSERT INTO "roles" ("name", "description") VALUES
+	('admin', 'Full administrative access'),
+	('user', 'Default role for signed-up users')
+ON CONFLICT ("name") DO NOTHING;
+--> statement-breakpoint
+INSERT INTO "permissions" ("name", "description") VALUES
+	('roles:read', 'List roles and see role assignments'),
+	('roles:manage', 'Grant and revoke roles'),
+	('users:read', 'Read other users'' data')
+ON CONFLICT ("name") DO NOTHING;
+--> statement-breakpoint
+INSERT INTO "role_permissions" ("role_id", "permission_id")
+SELECT r."id", p."id"
+FROM "roles" r
+CROSS JOIN "permissions" p
+WHERE r."name" = 'admin'
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,6 @@
+CREATE TABLE IF NOT EXISTS "consumed_tokens" (
+	"token_hash" varchar(64) PRIMARY KEY NOT NULL,
+	"purpose" varchar(32) NOT NULL,
+	"consumed_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL
+);
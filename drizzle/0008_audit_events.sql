@@ -0,0 +1,39 @@
+CREATE TABLE IF NOT EXISTS "audit_events" (
+	"id" uuid PRIMARY KEY NOT NULL,
+	"type" varchar(64) NOT NULL,
+	"outcome" varchar(16) NOT NULL,
+	"actor_id" text,
+	"target_id" text,
+	"ip_address" varchar(64),
+	"user_agent" text,
+	"request_id" varchar(128),
+	"metadata" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"occurred_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "audit_events_occurred_at_idx" ON "audit_events" USING btree ("occurred_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "audit_events_actor_id_idx" ON "audit_events" USING btree ("actor_id","occurred_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "audit_events_type_idx" ON "audit_events" USING btree ("type","occurred_at");--> statement-breakpoint
+-- The audit log is append-only: reject any attempt to change or remove events
+CREATE OR REPLACE FUNCTION "audit_events_reject_change"() RETURNS trigger AS $$
+BEGIN
+	RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "audit_events_append_only" ON "audit_events";
+--> statement-breakpoint
+CREATE TRIGGER "audit_events_append_only"
+BEFORE UPDATE OR DELETE ON "audit_events"
+FOR EACH ROW EXECUTE FUNCTION "audit_events_reject_change"();
+--> statement-breakpoint
+INSERT INTO "permissions" ("name", "description") VALUES
+	('audit:read', 'Query the security audit log')
+ON CONFLICT ("name") DO NOTHING;
+--> statement-breakpoint
+INSERT INTO "role_permissions" ("role_id", "permission_id")
+SELECT r."id", p."id"
+FROM "roles" r
+JOIN "permissions" p ON p."name" = 'audit:read'
+WHERE r."name" = 'admin'
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,6 @@
+CREATE TABLE IF NOT EXISTS "two_factor_pending_sessions" (
+	"session_token" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
@@ -0,0 +1,64 @@
+import { disconnectDatabase, getConnectionManager } from '../config/database';
+import { getMigrationService } from '../services/migration.service';
+import { IMigrationInfo } from '../models/migration.types';
+
+const USAGE = `Usage: bun src/cli/migrate.ts <command>
+
+Commands:
+  status            List applied and pending migrations; exits 1 if any are pending
+  up                Apply pending migrations
+  baseline [tag]    Mark pending migrations up to and including tag (default: all)
+                    as applied without running them`;
+
+const list = (migrations: IMigrationInfo[]): string =>
+  migrations.map((migration) => `  ${migration.tag}`).join('\n');
+
+/**
+ * @returns Process exit code
+ */
+const run = async (command: string | undefined, args: string[]): Promise<number> => {
+  if (command !== 'status' && command !== 'up' && command !== 'baseline') {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const result = await getConnectionManager().initializeConnection();
+
+  if (!result.success) {
+    console.error(`Database connection failed: ${result.message}`);
+    return 1;
+  }
+
+  const migrationService = getMigrationService();
+
+  switch (command) {
+    case 'status': {
+      const { applied, pending } = await migrationService.status();
+      console.log(`Applied (${applied.length}):\n${list(applied)}`);
+      console.log(`Pending (${pending.length}):${pending.length ? `\n${list(pending)}` : ' none'}`);
+      return pending.length === 0 ? 0 : 1;
+    }
+    case 'up': {
+      const { migrated } = await migrationService.up();
+      console.log(migrated.length ? `Applied ${migrated.length}:\n${list(migrated)}` : 'Nothing to apply');
+      return 0;
+    }
+    case 'baseline': {
+      const { migrated } = await migrationService.baseline(args[0]);
+      console.log(migrated.length ? `Marked as applied ${migrated.length}:\n${list(migrated)}` : 'Nothing to baseline');
+      return 0;
+    }
+  }
+};
+
+const [command, ...args] = process.argv.slice(2);
+
+run(command, args)
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    return 1;
+  })
+  .then(async (code) => {
+    await disconnectDatabase();
+    process.exit(code);
+  });
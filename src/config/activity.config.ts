@@ -0,0 +1,23 @@
+import { ActivityConfig } from '../models/activity.types';
+import { EnvReader } from '../utils/env-reader';
+
+/**
+ * User activity tracking configuration from environment variables
+ * 
+ * Tracking needs MongoDB, so it is off whenever MONGODB_URI is not set.
+ * 
+ * - ACTIVITY_TRACKING_ENABLED: Set to false to stop recording activity (default: true)
+ * - ACTIVITY_RETENTION_DAYS: Days before events expire via a TTL index (default: 30)
+ * - ACTIVITY_BATCH_SIZE: Events written per batch (default: 100)
+ * - ACTIVITY_FLUSH_INTERVAL_MS: Longest an event waits before being written (default: 2000)
+ * - ACTIVITY_MAX_QUEUE_SIZE: Events kept in memory while MongoDB is down (default: 10000)
+ * 
+ * @param mongoConfigured - Whether MONGODB_URI is set
+ */
+export const parseActivityConfig = (env: EnvReader, mongoConfigured: boolean): ActivityConfig => ({
+  enabled: env.boolean('ACTIVITY_TRACKING_ENABLED', true) && mongoConfigured,
+  retentionDays: env.int('ACTIVITY_RETENTION_DAYS', 30, { min: 1 }),
+  batchSize: env.int('ACTIVITY_BATCH_SIZE', 100, { min: 1 }),
+  flushIntervalMs: env.int('ACTIVITY_FLUSH_INTERVAL_MS', 2000, { min: 1 }),
+  maxQueueSize: env.int('ACTIVITY_MAX_QUEUE_SIZE', 10000, { min: 1 }),
+});
@@ -0,0 +1,228 @@
+import dotenv from 'dotenv';
+import { AppConfig, AppEnvironment, ConfigError, EnvironmentProfile, LoadedConfig, LogLevel } from '../models/config.types';
+import { EnvReader } from '../utils/env-reader';
+import { REDACTED, scrubString } from '../utils/log-redaction';
+import { parseActivityConfig } from './activity.config';
+import { parseAuditConfig } from './audit.config';
+import { parseDatabaseConfig } from './database.config';
+import { parseMailConfig } from './mail.config';
+import { parseMetricsConfig } from './metrics.config';
+import { parseMigrationConfig } from './migration.config';
+import { parseMongoConfig } from './mongodb.config';
+import { parseOAuthConfig } from './oauth.config';
+import { parseRateLimitConfig } from './rate-limit.config';
+import { parseSessionConfig } from './session.config';
+import { parseTracingConfig } from './tracing.config';
+import { parseTwoFactorConfig } from './two-factor.config';
+
+const ENVIRONMENTS: AppEnvironment[] = ['development', 'test', 'production'];
+const LOG_LEVELS: LogLevel[] = ['fatal', 'error', 'warn', 'info', 'debug', 'trace', 'silent'];
+
+/**
+ * Defaults and safety rules for each NODE_ENV
+ */
+const PROFILES: Record<AppEnvironment, EnvironmentProfile> = {
+  development: {
+    strict: false,
+    logLevel: 'debug',
+    prettyLogs: true,
+    exposeErrorDetails: true,
+    allowMockIssuer: true,
+  },
+  test: {
+    strict: false,
+    logLevel: 'warn',
+    prettyLogs: false,
+    exposeErrorDetails: true,
+    allowMockIssuer: true,
+  },
+  production: {
+    strict: true,
+    logLevel: 'info',
+    prettyLogs: false,
+    exposeErrorDetails: false,
+    allowMockIssuer: false,
+  },
+};
+
+/** AUTH_SECRET outside production when none is set */
+const DEVELOPMENT_SECRET = 'your-secret-key-change-in-production';
+
+/** Placeholders that must never sign production sessions */
+const INSECURE_SECRETS = [DEVELOPMENT_SECRET, 'secret', 'changeme', 'change-me'];
+
+const MIN_SECRET_LENGTH = 32;
+
+/** Keys whose values summarizeConfig() hides */
+const SECRET_KEYS = ['secret', 'password', 'clientSecret', 'encryptionKey'];
+
+/**
+ * Load .env.<NODE_ENV> and then .env into process.env
+ * 
+ * Variables already set in the environment win over both files, and
+ * .env.<NODE_ENV> wins over .env.
+ */
+export function loadEnvFiles(): void {
+  const environment = process.env.NODE_ENV || 'development';
+
+  dotenv.config({ path: [`.env.${environment}`, '.env'], quiet: true });
+}
+
+/**
+ * Report secrets and settings that are only acceptable during development
+ */
+function checkProductionSafety(env: EnvReader, config: AppConfig): void {
+  const insecure = (value: string) =>
+    INSECURE_SECRETS.includes(value) || value.length < MIN_SECRET_LENGTH;
+
+  if (insecure(config.auth.secret)) {
+    env.report('AUTH_SECRET', `must be a random string of at least ${MIN_SECRET_LENGTH} characters, e.g. from \`openssl rand -base64 32\``);
+  }
+
+  if (env.has('TWO_FACTOR_ENCRYPTION_KEY') && insecure(config.twoFactor.encryptionKey)) {
+    env.report('TWO_FACTOR_ENCRYPTION_KEY', `must be a random string of at least ${MIN_SECRET_LENGTH} characters`);
+  }
+
+  if (!config.database.url) {
+    env.report('DATABASE_URL', 'is required in production');
+  }
+
+  // The other transports never deliver, so reset and verification emails would be lost
+  if (config.mail.transport !== 'smtp') {
+    env.report('MAIL_TRANSPORT', 'must be smtp in production');
+  }
+}
+
+function deepFreeze<T>(value: T): T {
+  if (value !== null && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+
+  return value;
+}
+
+/**
+ * Parse and validate the application configuration
+ * 
+ * NODE_ENV ('development' by default, 'test' or 'production') selects the
+ * environment profile, which sets defaults such as the log level and decides
+ * how problems are handled. The production profile is strict: any malformed
+ * value, a placeholder or short secret, a missing DATABASE_URL or a mail
+ * transport other than smtp throws.
+ * Other profiles fall back to the default for a malformed value and return
+ * the problem as a warning.
+ * 
+ * Feature settings are documented next to their parsers in the other
+ * config/*.config.ts files. The ones read here:
+ * - NODE_ENV: Environment profile (default: development)
+ * - PORT: HTTP port (default: 3000)
+ * - TRUST_PROXY: Number of reverse proxies in front of the app; the client
+ *   address is read from X-Forwarded-For past that many hops (default: 0)
+ * - LOG_LEVEL: fatal, error, warn, info, debug, trace or silent (default: from the profile)
+ * - LOG_PRETTY: Human-readable logs instead of JSON (default: true in development)
+ * - AUTH_SECRET: Signs sessions and tokens (required in production, at least 32 characters)
+ * - BETTER_AUTH_URL: Public API base URL (default: http://localhost:3000)
+ * 
+ * @param source - Environment variables, normally process.env
+ * @returns A deeply frozen configuration and any tolerated problems
+ * @throws {ConfigError} Listing every problem, when NODE_ENV is unknown or a strict profile finds any
+ */
+export function loadConfig(source: NodeJS.ProcessEnv): LoadedConfig {
+  const env = new EnvReader(source);
+  const environment = env.oneOf('NODE_ENV', ENVIRONMENTS, 'development');
+
+  // Guessing would silently drop production safeguards
+  if (env.problems.length > 0) {
+    throw new ConfigError(env.problems);
+  }
+
+  const profile = PROFILES[environment];
+  const auth = {
+    secret: env.string('AUTH_SECRET', DEVELOPMENT_SECRET),
+    baseUrl: env.url('BETTER_AUTH_URL', 'http://localhost:3000'),
+  };
+  const mongodb = parseMongoConfig(env);
+
+  const config: AppConfig = {
+    environment,
+    profile,
+    server: {
+      port: env.int('PORT', 3000, { min: 1, max: 65535 }),
+      trustProxyHops: env.int('TRUST_PROXY', 0, { min: 0 }),
+    },
+    logging: {
+      level: env.oneOf('LOG_LEVEL', LOG_LEVELS, profile.logLevel),
+      pretty: env.boolean('LOG_PRETTY', profile.prettyLogs),
+    },
+    auth,
+    database: parseDatabaseConfig(env),
+    mongodb,
+    migrations: parseMigrationConfig(env),
+    session: parseSessionConfig(env),
+    mail: parseMailConfig(env, auth.baseUrl),
+    oauth: parseOAuthConfig(env, auth.baseUrl, profile.allowMockIssuer),
+    twoFactor: parseTwoFactorConfig(env, auth.secret),
+    rateLimit: parseRateLimitConfig(env),
+    audit: parseAuditConfig(env),
+    activity: parseActivityConfig(env, mongodb.uri !== null),
+    metrics: parseMetricsConfig(env),
+    tracing: parseTracingConfig(env),
+  };
+
+  if (profile.strict) {
+    checkProductionSafety(env, config);
+
+    if (env.problems.length > 0) {
+      throw new ConfigError(env.problems);
+    }
+  }
+
+  return { config: deepFreeze(config), warnings: env.problems };
+}
+
+const redact = (value: unknown, key?: string): unknown => {
+  if (key !== undefined && SECRET_KEYS.includes(key)) {
+    return value ? REDACTED : value;
+  }
+
+  if (typeof value === 'string') {
+    return scrubString(value);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item));
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, redact(item, name)]));
+  }
+
+  return value;
+};
+
+/**
+ * Copy of the configuration that is safe to log
+ * 
+ * Secrets are replaced with [REDACTED] and credentials are removed from
+ * connection strings.
+ */
+export function summarizeConfig(appConfig: AppConfig): Record<string, unknown> {
+  return redact(appConfig) as Record<string, unknown>;
+}
+
+loadEnvFiles();
+
+const loaded = loadConfig(process.env);
+
+/**
+ * Application configuration, loaded once when this module is first imported
+ * 
+ * Import this instead of reading process.env.
+ */
+export const config: AppConfig = loaded.config;
+
+/**
+ * Problems tolerated while loading config, to be logged at startup
+ */
+export const configWarnings: string[] = loaded.warnings;
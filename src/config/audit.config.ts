@@ -0,0 +1,17 @@
+import { AuditConfig } from '../models/audit.types';
+import { EnvReader } from '../utils/env-reader';
+
+/**
+ * Audit log configuration from environment variables
+ * 
+ * - AUDIT_STORE: 'postgres' (default) or 'mongo' (requires MONGODB_URI)
+ * - AUDIT_BATCH_SIZE: Events written per batch (default: 50)
+ * - AUDIT_FLUSH_INTERVAL_MS: Longest an event waits before being written (default: 1000)
+ * - AUDIT_MAX_QUEUE_SIZE: Events kept in memory while the store is down (default: 10000)
+ */
+export const parseAuditConfig = (env: EnvReader): AuditConfig => ({
+  store: env.oneOf('AUDIT_STORE', ['postgres', 'mongo'], 'postgres'),
+  batchSize: env.int('AUDIT_BATCH_SIZE', 50, { min: 1 }),
+  flushIntervalMs: env.int('AUDIT_FLUSH_INTERVAL_MS', 1000, { min: 1 }),
+  maxQueueSize: env.int('AUDIT_MAX_QUEUE_SIZE', 10000, { min: 1 }),
+});
@@ -1,18 +1,252 @@
 import { betterAuth } from 'better-auth';
+import { APIError } from 'better-auth/api';
+import { bearer, genericOAuth, GenericOAuthConfig } from 'better-auth/plugins';
 import { Pool } from 'pg';
+import { config } from './app.config';
+import { MOCK_OIDC_PATH, MOCK_OIDC_PROVIDER_ID } from './oauth.config';
+import logger from './logger.config';
+import { getConnectionManager } from './database';
+import { AuthHealthResult, DatabaseError } from '../models/database.types';
+import { getMailService } from '../services/mail.service';
+import { getRoleService } from '../services/role.service';
+import { getTwoFactorService } from '../services/two-factor.service';
+import { RefreshTokenRepository } from '../repositories/refresh-token.repository';
 
-const AUTH_SECRET = process.env.AUTH_SECRET || 'your-secret-key-change-in-production';
-const DATABASE_URL = process.env.DATABASE_URL || 'postgresql://localhost:5432/mydb';
+/**
+ * Deliver an account email without making the API response wait for it
+ * 
+ * Keeps response times identical whether or not the address exists, so the
+ * endpoints cannot be used to enumerate accounts.
+ */
+function deliverInBackground(delivery: Promise<void>): void {
+  delivery.catch((error) => logger.error({ err: error }, 'Background email delivery failed'));
+}
 
-export const auth = betterAuth({
-  database: new Pool({
-    connectionString: DATABASE_URL,
-  }),
-  secret: AUTH_SECRET,
+/**
+ * OAuth/OIDC providers served through better-auth's generic OAuth plugin
+ */
+const genericProviders: GenericOAuthConfig[] = [
+  ...(config.oauth.oidc
+    ? [{
+      providerId: config.oauth.oidc.providerId,
+      discoveryUrl: config.oauth.oidc.discoveryUrl,
+      clientId: config.oauth.oidc.clientId,
+      clientSecret: config.oauth.oidc.clientSecret,
+      scopes: config.oauth.oidc.scopes,
+      pkce: true,
+    }]
+    : []),
+  ...(config.oauth.mockIssuer.enabled
+    ? [{
+      providerId: MOCK_OIDC_PROVIDER_ID,
+      discoveryUrl: `${config.oauth.apiUrl}${MOCK_OIDC_PATH}/.well-known/openid-configuration`,
+      clientId: config.oauth.mockIssuer.clientId,
+      clientSecret: config.oauth.mockIssuer.clientSecret,
+      scopes: ['openid', 'email', 'profile'],
+    }]
+    : []),
+];
+
+/**
+ * better-auth endpoints the /api/auth catch-all must not serve
+ * 
+ * Our own routes cover these and add rate limiting, lockout, 2FA, single-use
+ * tokens, refresh token revocation and audit events. Everything that acts on
+ * an existing session is here, so a session is only ever used through
+ * requireAuth or requireSession. The catch-all is left with the OAuth
+ * redirects and callbacks.
+ */
+const DISABLED_PATHS = [
+  // Credentials
+  '/sign-up/email',
+  '/sign-in/email',
+  '/request-password-reset',
+  '/send-verification-email',
+  '/change-password',
+  '/change-email',
+  '/verify-password',
+  // Sessions
+  '/get-session',
+  '/list-sessions',
+  '/sign-out',
+  '/revoke-session',
+  '/revoke-sessions',
+  '/revoke-other-sessions',
+  // Account
+  '/update-user',
+  '/delete-user',
+  '/delete-user/callback',
+  '/link-social',
+  '/oauth2/link',
+  '/unlink-account',
+  '/list-accounts',
+  '/account-info',
+  '/refresh-token',
+  '/get-access-token',
+];
+
+/**
+ * Build the better-auth instance on a database pool
+ */
+const createAuth = (pool: Pool) => betterAuth({
+  database: pool,
+  secret: config.auth.secret,
+  baseURL: config.auth.baseUrl,
+  disabledPaths: DISABLED_PATHS,
   emailAndPassword: {
     enabled: true,
+    requireEmailVerification: config.mail.requireEmailVerification,
+    resetPasswordTokenExpiresIn: config.mail.passwordResetTokenTtl,
+    revokeSessionsOnPasswordReset: true,
+    sendResetPassword: async ({ user, token }) => {
+      deliverInBackground(getMailService().sendPasswordReset(user, token));
+    },
+    // Sessions are revoked by better-auth; refresh tokens must not outlive them
+    onPasswordReset: async ({ user }) => {
+      await new RefreshTokenRepository().revokeByUser(user.id);
+    },
+  },
+  socialProviders: {
+    ...(config.oauth.google && { google: config.oauth.google }),
+    ...(config.oauth.github && { github: config.oauth.github }),
+  },
+  account: {
+    // A social identity whose email matches an existing user is attached to
+    // that user rather than creating a duplicate account. better-auth links a
+    // verified email from any provider and an unverified one from a trusted
+    // provider, so nothing is trusted here; the account create hook limits
+    // linking to OAUTH_TRUSTED_PROVIDERS.
+    accountLinking: {
+      enabled: config.oauth.trustedProviders.length > 0,
+      trustedProviders: [],
+    },
+  },
+  // bearer: accept session tokens in the Authorization header, as requireAuth sends them
+  plugins: [bearer(), genericOAuth({ config: genericProviders })],
+  session: {
+    expiresIn: config.session.sessionTtl,
+    updateAge: config.session.sessionUpdateAge,
+    disableSessionRefresh: !config.session.slidingExpiry,
+  },
+  emailVerification: {
+    sendOnSignUp: true,
+    expiresIn: config.mail.emailVerificationTokenTtl,
+    sendVerificationEmail: async ({ user, token }) => {
+      deliverInBackground(getMailService().sendEmailVerification(user, token));
+    },
+  },
+  databaseHooks: {
+    account: {
+      create: {
+        // A new user has no accounts yet, so existing ones mean this links an identity
+        before: async (account, context) => {
+          if (!context || config.oauth.trustedProviders.includes(account.providerId)) {
+            return;
+          }
+
+          const existing = await context.context.internalAdapter.findAccounts(account.userId);
+
+          if (existing.length > 0) {
+            throw new APIError('FORBIDDEN', { message: 'account not linked' });
+          }
+        },
+      },
+    },
+    user: {
+      create: {
+        // Every new account, from email or social sign-up, gets the default role
+        after: async (user) => {
+          await getRoleService().assignDefaultRole(user.id);
+        },
+      },
+    },
+    session: {
+      create: {
+        // Sessions opened by a better-auth endpoint (password or social sign-in)
+        // prove only the first factor. Ours are opened after the second factor
+        // or a refresh, outside any endpoint, and have no context.
+        after: async (session, context) => {
+          if (context) {
+            await getTwoFactorService().holdSession(session);
+          }
+        },
+      },
+      delete: {
+        after: async (session) => {
+          await getTwoFactorService().releaseSession(session.token);
+
+          // Revoking a session revokes its refresh tokens. Expired sessions are
+          // also deleted, on lookup, and keep theirs: that is what refresh is for.
+          if (session.expiresAt.getTime() > Date.now()) {
+            await new RefreshTokenRepository().revokeBySessionToken(session.token);
+          }
+        },
+      },
+    },
   },
 });
 
-export type AuthSession = typeof auth.$Infer.Session;
-export type AuthUser = typeof auth.$Infer.User;
+export type Auth = ReturnType<typeof createAuth>;
+
+const log = logger.child({ component: 'auth' });
+
+let auth: Auth | null = null;
+let authPool: Pool | null = null;
+
+/**
+ * Get the better-auth instance, creating it once the database is ready
+ * 
+ * better-auth runs on the ConnectionManager's primary pool, so it shares the
+ * pool limit, reconnection, health checks and shutdown with the rest of the app.
+ * The instance is rebuilt if the manager replaces that pool.
+ * 
+ * @throws {DatabaseError} Temporary NOT_INITIALIZED error until the database is connected
+ */
+export const getAuth = (): Auth => {
+  const connectionManager = getConnectionManager();
+  const pool = connectionManager.getPool();
+
+  if (auth && authPool === pool) {
+    return auth;
+  }
+
+  if (!pool || !connectionManager.isConnected()) {
+    throw new DatabaseError(
+      'Authentication is unavailable until the database is connected',
+      'NOT_INITIALIZED',
+      'temporary'
+    );
+  }
+
+  auth = createAuth(pool);
+  authPool = pool;
+  log.info('better-auth initialized on the shared database pool');
+
+  return auth;
+};
+
+/**
+ * Whether better-auth can serve requests, for the readiness probe
+ * 
+ * Creates the instance if the database has become ready since the last call.
+ */
+export const checkAuth = (): AuthHealthResult => {
+  try {
+    getAuth();
+    return { ready: true };
+  } catch (error) {
+    return { ready: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+};
+
+/**
+ * Types inferred from the better-auth instance
+ * 
+ * Everything in the auth stack is typed from these, so a better-auth upgrade
+ * that changes the user or session shape fails at compile time.
+ */
+export type AuthSession = Auth['$Infer']['Session'];
+export type AuthUser = AuthSession['user'];
+export type AuthSessionRecord = AuthSession['session'];
+export type SignUpEmailResult = Awaited<ReturnType<Auth['api']['signUpEmail']>>;
+export type SignInEmailResult = Awaited<ReturnType<Auth['api']['signInEmail']>>;
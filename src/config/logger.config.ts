@@ -1,10 +1,12 @@
 import pino from 'pino';
-
-const isDevelopment = process.env.NODE_ENV !== 'production';
+import { isSpanContextValid, trace } from '@opentelemetry/api';
+import { getRequestContext } from '../utils/request-context';
+import { REDACT_PATHS, REDACTED, scrubCredentials } from '../utils/log-redaction';
+import { config } from './app.config';
 
 export const logger = pino({
-  level: process.env.LOG_LEVEL || 'info',
-  transport: isDevelopment
+  level: config.logging.level,
+  transport: config.logging.pretty
     ? {
         target: 'pino-pretty',
         options: {
@@ -18,8 +20,37 @@ export const logger = pino({
     level: (label) => {
       return { level: label };
     },
+    // Strip credentials embedded in string values (URLs, tokens in messages)
+    log: (object) => scrubCredentials(object),
+  },
+  // Censor known sensitive keys regardless of where they are logged from
+  redact: {
+    paths: REDACT_PATHS,
+    censor: REDACTED,
+  },
+  serializers: {
+    err: (err: Error) => scrubCredentials(pino.stdSerializers.err(err)),
+    error: (err: unknown) => (err instanceof Error ? scrubCredentials(pino.stdSerializers.err(err)) : err),
+  },
+  hooks: {
+    // Messages are not covered by formatters.log
+    logMethod(args, method) {
+      const scrubbed = args.map((arg) => (typeof arg === 'string' ? scrubCredentials(arg) : arg));
+      return method.apply(this, scrubbed as Parameters<typeof method>);
+    },
   },
   timestamp: pino.stdTimeFunctions.isoTime,
+  // Bind the current request's correlation id, user and trace to every log
+  // line, including those from child loggers created at module load
+  mixin: () => {
+    const context = getRequestContext();
+    const spanContext = trace.getActiveSpan()?.spanContext();
+
+    return {
+      ...(context && { requestId: context.requestId, userId: context.userId }),
+      ...(spanContext && isSpanContextValid(spanContext) && { traceId: spanContext.traceId, spanId: spanContext.spanId }),
+    };
+  },
 });
 
 export default logger;
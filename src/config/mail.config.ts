@@ -0,0 +1,34 @@
+import { MailConfig } from '../models/mail.types';
+import { EnvReader } from '../utils/env-reader';
+
+/**
+ * Mail configuration from environment variables
+ * 
+ * - MAIL_TRANSPORT: 'console' (default), 'file' (writes .eml files) or 'smtp' (required in production)
+ * - MAIL_FROM: Sender address (default: no-reply@localhost)
+ * - MAIL_FILE_DIR: Output directory for the file transport (default: ./tmp/mail)
+ * - SMTP_HOST / SMTP_PORT / SMTP_SECURE / SMTP_USER / SMTP_PASSWORD: SMTP server
+ * - APP_URL: Frontend base URL for password reset links (default: http://localhost:5173)
+ * - PASSWORD_RESET_TOKEN_TTL: Reset token lifetime in seconds (default: 3600)
+ * - EMAIL_VERIFICATION_TOKEN_TTL: Verification token lifetime in seconds (default: 86400)
+ * - REQUIRE_EMAIL_VERIFICATION: Block sign-in until the email is verified (default: false)
+ * 
+ * @param apiUrl - Public API base URL (BETTER_AUTH_URL), for verification links
+ */
+export const parseMailConfig = (env: EnvReader, apiUrl: string): MailConfig => ({
+  transport: env.oneOf('MAIL_TRANSPORT', ['console', 'file', 'smtp'], 'console'),
+  from: env.string('MAIL_FROM', 'no-reply@localhost'),
+  fileDirectory: env.string('MAIL_FILE_DIR', './tmp/mail'),
+  smtp: {
+    host: env.string('SMTP_HOST', 'localhost'),
+    port: env.int('SMTP_PORT', 587, { min: 1, max: 65535 }),
+    secure: env.boolean('SMTP_SECURE', false),
+    user: env.optional('SMTP_USER'),
+    password: env.optional('SMTP_PASSWORD'),
+  },
+  appUrl: env.url('APP_URL', 'http://localhost:5173'),
+  apiUrl,
+  passwordResetTokenTtl: env.int('PASSWORD_RESET_TOKEN_TTL', 3600, { min: 1 }),
+  emailVerificationTokenTtl: env.int('EMAIL_VERIFICATION_TOKEN_TTL', 86400, { min: 1 }),
+  requireEmailVerification: env.boolean('REQUIRE_EMAIL_VERIFICATION', false),
+});
@@ -0,0 +1,14 @@
+import { MetricsConfig } from '../models/metrics.types';
+import { EnvReader } from '../utils/env-reader';
+
+/**
+ * Prometheus metrics configuration from environment variables
+ * 
+ * - METRICS_ENABLED: Serve GET /metrics (default: true)
+ * - METRICS_USERNAME / METRICS_PASSWORD: Require basic auth on /metrics when both are set
+ */
+export const parseMetricsConfig = (env: EnvReader): MetricsConfig => ({
+  enabled: env.boolean('METRICS_ENABLED', true),
+  username: env.optional('METRICS_USERNAME') ?? null,
+  password: env.optional('METRICS_PASSWORD') ?? null,
+});
@@ -0,0 +1,15 @@
+import { MigrationConfig } from '../models/migration.types';
+import { EnvReader } from '../utils/env-reader';
+
+/**
+ * Migration runner configuration from environment variables
+ * 
+ * - DB_MIGRATE_ON_STARTUP: Apply pending migrations when the server starts (default: false)
+ * - DB_MIGRATIONS_FOLDER: Directory generated by drizzle-kit (default: ./drizzle)
+ * - DB_MIGRATION_LOCK_TIMEOUT: Milliseconds to wait for another instance's migration lock (default: 60000)
+ */
+export const parseMigrationConfig = (env: EnvReader): MigrationConfig => ({
+  migrationsFolder: env.string('DB_MIGRATIONS_FOLDER', './drizzle'),
+  runOnStartup: env.boolean('DB_MIGRATE_ON_STARTUP', false),
+  lockTimeoutMs: env.int('DB_MIGRATION_LOCK_TIMEOUT', 60000, { min: 0 }),
+});
@@ -0,0 +1,531 @@
+import { Db, MongoClient } from 'mongodb';
+import logger from './logger.config';
+import { categorizeError, sanitizeUrl, sleep } from './database';
+import { config } from './app.config';
+import { MONGO_URL_FORMAT, validateMongoUrl } from './mongodb.config';
+import { ConnectionResult, ConnectionStatus, DatabaseError, DatabaseHealthResult } from '../models/database.types';
+import { IMongoConnectionManager, MongoConfig, MongoConnectionState } from '../models/mongodb.types';
+import { dbConnectionAttempts, dbConnectionsLost, dbReconnects, recordConnection } from '../utils/metrics';
+
+const log = logger.child({ component: 'mongodb' });
+
+/**
+ * Categorizes MongoDB driver errors as temporary (retryable) or permanent
+ * 
+ * Driver errors are recognised by class name and server error code; anything
+ * else falls back to the generic categorizeError.
+ * 
+ * @param error - The error to categorize
+ * @returns DatabaseError with category and troubleshooting steps
+ */
+export function categorizeMongoError(error: Error): DatabaseError {
+  const message = error.message;
+  const code = (error as { code?: unknown }).code;
+
+  // Server error 18 is AuthenticationFailed
+  if (code === 18 || message.includes('Authentication failed')) {
+    return new DatabaseError(
+      'Authentication failed. Please check MongoDB credentials.',
+      'AUTH_FAILED',
+      'permanent',
+      [
+        'Verify username and password in MONGODB_URI',
+        'Add ?authSource=admin when authenticating as the root user from docker-compose',
+        'Note: Credentials are not logged for security'
+      ]
+    );
+  }
+
+  if (error.name === 'MongoParseError' || error.name === 'MongoInvalidArgumentError') {
+    return new DatabaseError(
+      message,
+      'INVALID_URL',
+      'permanent',
+      [
+        `Check MONGODB_URI matches ${MONGO_URL_FORMAT}`,
+        'URL-encode special characters in the username and password'
+      ]
+    );
+  }
+
+  if (error.name === 'MongoServerSelectionError' || error.name === 'MongoNetworkError' || error.name === 'MongoNetworkTimeoutError') {
+    return new DatabaseError(
+      message,
+      'NETWORK_ERROR',
+      'temporary',
+      [
+        'Check if MongoDB container is running: docker ps',
+        'Verify network connectivity to the MongoDB host',
+        'Ensure MONGODB_URI host and port are correct',
+        'For replica sets, check that every member host name resolves from this machine'
+      ]
+    );
+  }
+
+  return categorizeError(error);
+}
+
+/**
+ * MongoConnectionManager class - Manages the MongoDB connection lifecycle
+ * 
+ * Counterpart to ConnectionManager for the logs, activity and analytics data
+ * the PRD assigns to MongoDB. The driver's MongoClient owns the connection pool
+ * and reconnects individual sockets itself; this class adds startup retries,
+ * status tracking, health probes and recovery when the initial connection never
+ * succeeded or a probe finds the server gone.
+ * 
+ * @example
+ * const manager = getMongoConnectionManager();
+ * if (manager.isConfigured()) {
+ *   await manager.initializeConnection();
+ * }
+ * 
+ * const db = manager.getDb();
+ * // await db?.collection('events').insertOne({ ... });
+ * 
+ * await manager.disconnect();
+ */
+export class MongoConnectionManager implements IMongoConnectionManager {
+  private static instance: MongoConnectionManager;
+  private state: MongoConnectionState;
+  private readonly DISCONNECT_TIMEOUT = 5000; // 5 seconds
+  private readonly RECONNECT_INTERVAL = 30000; // 30 seconds
+
+  private constructor(private readonly config: MongoConfig) {
+    this.state = {
+      client: null,
+      db: null,
+      connected: false,
+      lastConnectedAt: null,
+      lastError: null,
+      retryCount: 0,
+      reconnectTimer: null
+    };
+  }
+
+  public static getInstance(): MongoConnectionManager {
+    if (!MongoConnectionManager.instance) {
+      MongoConnectionManager.instance = new MongoConnectionManager(config.mongodb);
+    }
+    return MongoConnectionManager.instance;
+  }
+
+  public isConfigured(): boolean {
+    return this.config.uri !== null;
+  }
+
+  /**
+   * Initialize the MongoDB connection with retry logic
+   * 
+   * Configuration via environment variables:
+   * - MONGODB_URI: MongoDB connection string (required)
+   * - MONGO_POOL_SIZE: Maximum pool size (default: 10)
+   * - MONGO_CONNECTION_TIMEOUT: Server selection timeout in ms (default: 10000)
+   * - MONGO_MAX_RETRIES: Maximum retry attempts (default: 5)
+   * - MONGO_RETRY_BASE_DELAY: Base delay for exponential backoff in ms (default: 1000)
+   * 
+   * @returns ConnectionResult indicating success or failure with details
+   */
+  public async initializeConnection(): Promise<ConnectionResult> {
+    const mongoUrl = this.config.uri ?? '';
+
+    const validation = validateMongoUrl(mongoUrl);
+    if (!validation.valid) {
+      const error = new Error(validation.error || 'Invalid MONGODB_URI');
+      this.state.lastError = error;
+
+      log.error({
+        context: 'initialization',
+        error: validation.error
+      }, 'MongoDB URL validation failed');
+
+      return {
+        success: false,
+        message: validation.error || 'Invalid MONGODB_URI',
+        error
+      };
+    }
+
+    this.ensureClient(mongoUrl);
+
+    const { maxRetries, retryBaseDelayMs: baseDelay } = this.config;
+
+    const result = await this.connectWithRetryInternal(maxRetries, baseDelay);
+    this.applyResult(result);
+
+    if (!result.success) {
+      this.startReconnectionTimer();
+    }
+
+    return result;
+  }
+
+  public getDb(): Db | null {
+    return this.state.db;
+  }
+
+  public isConnected(): boolean {
+    return this.state.connected;
+  }
+
+  public getConnectionStatus(): ConnectionStatus {
+    return {
+      connected: this.state.connected,
+      lastConnectedAt: this.state.lastConnectedAt || undefined,
+      lastError: this.state.lastError?.message,
+      retryCount: this.state.retryCount,
+      reconnecting: this.state.reconnectTimer !== null,
+      databaseUrl: sanitizeUrl(this.config.uri ?? '')
+    };
+  }
+
+  /**
+   * Probe MongoDB with a timed `ping` command
+   * 
+   * Used by readiness checks. If the probe fails while the manager believes it
+   * is connected, the connection is marked as lost and the background
+   * reconnection timer is started.
+   * 
+   * @param timeoutMs - Maximum time to wait for the ping
+   * @returns DatabaseHealthResult with response time
+   */
+  public async ping(timeoutMs: number): Promise<DatabaseHealthResult> {
+    if (!this.state.db) {
+      return {
+        connected: false,
+        reconnecting: this.state.reconnectTimer !== null,
+        error: 'MongoDB client not initialized'
+      };
+    }
+
+    const startTime = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          reject(new Error('Connection timeout: health check exceeded ' + timeoutMs + 'ms'));
+        }, timeoutMs);
+      });
+
+      await Promise.race([
+        this.state.db.command({ ping: 1 }),
+        timeoutPromise
+      ]);
+
+      return {
+        connected: this.state.connected,
+        reconnecting: this.state.reconnectTimer !== null,
+        responseTime: Date.now() - startTime,
+        lastConnectedAt: this.state.lastConnectedAt || undefined
+      };
+    } catch (error) {
+      const dbError = categorizeMongoError(error as Error);
+
+      if (this.state.connected) {
+        this.handleConnectionLost(dbError);
+      }
+
+      return {
+        connected: false,
+        reconnecting: this.state.reconnectTimer !== null,
+        responseTime: Date.now() - startTime,
+        error: dbError.message,
+        lastConnectedAt: this.state.lastConnectedAt || undefined
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Close the client gracefully
+   * 
+   * Waits up to 5 seconds for in-flight operations, then forces the close.
+   */
+  public async disconnect(): Promise<void> {
+    this.stopReconnectionTimer();
+
+    if (!this.state.client) {
+      log.info({ context: 'shutdown' }, 'No MongoDB connection to disconnect');
+      return;
+    }
+
+    log.info({
+      context: 'shutdown',
+      timeout: this.DISCONNECT_TIMEOUT
+    }, 'Initiating graceful MongoDB disconnect');
+
+    const client = this.state.client;
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const timeoutPromise = new Promise<void>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('Disconnect timeout exceeded')), this.DISCONNECT_TIMEOUT);
+      });
+
+      await Promise.race([client.close(), timeoutPromise]);
+
+      log.info({ context: 'shutdown' }, 'MongoDB disconnected successfully');
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Disconnect timeout exceeded') {
+        log.warn({
+          context: 'shutdown',
+          timeout: this.DISCONNECT_TIMEOUT
+        }, 'Disconnect timeout reached, forcing connection close');
+        await client.close(true).catch(() => undefined);
+      } else {
+        log.error({
+          context: 'shutdown',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }, 'Error during MongoDB disconnect');
+      }
+    } finally {
+      clearTimeout(timer);
+      this.state.connected = false;
+      this.state.client = null;
+      this.state.db = null;
+    }
+  }
+
+  /**
+   * Attempt to reconnect to MongoDB
+   * 
+   * Used by the background reconnection timer. Uses fewer retries (3) than
+   * initialization (5).
+   * 
+   * @returns ConnectionResult indicating success or failure
+   */
+  public async reconnect(): Promise<ConnectionResult> {
+    log.info({ context: 'reconnection' }, 'Attempting MongoDB reconnection');
+
+    if (this.state.connected && this.state.client) {
+      return {
+        success: true,
+        message: 'Already connected'
+      };
+    }
+
+    this.ensureClient(this.config.uri ?? '');
+
+    const result = await this.connectWithRetryInternal(3, 2000);
+    this.applyResult(result);
+    recordConnection(dbReconnects, 'mongodb', 'primary', result.success);
+
+    if (result.success) {
+      log.info({ context: 'reconnection' }, 'MongoDB reconnection successful');
+    }
+
+    return result;
+  }
+
+  /**
+   * Create the client if needed
+   * 
+   * The client does not connect until connect() or the first operation, so the
+   * Db handle is available to repositories straight away.
+   */
+  private ensureClient(mongoUrl: string): void {
+    if (this.state.client) {
+      return;
+    }
+
+    this.createClient(mongoUrl);
+  }
+
+  /**
+   * Replace the client after a failed connect, which leaves its topology closed
+   */
+  private async recreateClient(mongoUrl: string): Promise<void> {
+    await this.state.client?.close(true).catch(() => undefined);
+    this.createClient(mongoUrl);
+  }
+
+  private createClient(mongoUrl: string): void {
+    this.state.client = new MongoClient(mongoUrl, {
+      maxPoolSize: this.config.poolSize,
+      serverSelectionTimeoutMS: this.config.connectionTimeoutMs,
+    });
+    this.state.db = this.state.client.db();
+  }
+
+  private applyResult(result: ConnectionResult): void {
+    this.state.connected = result.success;
+    this.state.lastError = result.success ? null : result.error || null;
+    this.state.retryCount = result.attemptCount || 0;
+
+    if (result.success) {
+      this.state.lastConnectedAt = new Date();
+      this.stopReconnectionTimer();
+    }
+  }
+
+  /**
+   * Connect and ping with exponential backoff: baseDelay * 2^(attempt-1)
+   * between attempts
+   */
+  private async connectWithRetryInternal(maxRetries: number, baseDelay: number): Promise<ConnectionResult> {
+    if (!this.state.client || !this.state.db) {
+      return {
+        success: false,
+        message: 'MongoDB client not initialized',
+        error: new Error('MongoDB client not initialized')
+      };
+    }
+
+    const sanitizedUrl = sanitizeUrl(this.config.uri ?? '');
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      try {
+        log.info({
+          context: 'connection-retry',
+          attempt,
+          maxRetries,
+          remainingRetries: maxRetries - attempt,
+          databaseUrl: sanitizedUrl
+        }, 'Attempting MongoDB connection');
+
+        await this.state.client.connect();
+        await this.state.db.command({ ping: 1 });
+        recordConnection(dbConnectionAttempts, 'mongodb', 'primary', true);
+
+        log.info({
+          context: 'connection-retry',
+          attempt,
+          databaseUrl: sanitizedUrl
+        }, 'MongoDB connection successful');
+
+        return {
+          success: true,
+          message: `Connected successfully on attempt ${attempt}`,
+          attemptCount: attempt
+        };
+      } catch (error) {
+        const dbError = categorizeMongoError(error as Error);
+        recordConnection(dbConnectionAttempts, 'mongodb', 'primary', false);
+
+        log.error({
+          context: 'connection-retry',
+          attempt,
+          maxRetries,
+          remainingRetries: maxRetries - attempt,
+          databaseUrl: sanitizedUrl,
+          error: {
+            code: dbError.code,
+            message: dbError.message,
+            category: dbError.category
+          },
+          troubleshooting: dbError.troubleshooting
+        }, 'MongoDB connection failed');
+
+        await this.recreateClient(this.config.uri ?? '');
+
+        // Retrying cannot fix bad credentials or a malformed URL
+        if (attempt === maxRetries || dbError.category === 'permanent') {
+          log.error({
+            context: 'connection-retry',
+            totalAttempts: attempt,
+            databaseUrl: sanitizedUrl,
+            error: {
+              code: dbError.code,
+              message: dbError.message,
+              category: dbError.category
+            }
+          }, 'All MongoDB connection attempts exhausted');
+
+          return {
+            success: false,
+            message: `Failed to connect after ${attempt} attempts`,
+            attemptCount: attempt,
+            error: dbError
+          };
+        }
+
+        const delay = baseDelay * Math.pow(2, attempt - 1);
+
+        log.info({
+          context: 'connection-retry',
+          attempt,
+          nextAttempt: attempt + 1,
+          delayMs: delay,
+          databaseUrl: sanitizedUrl
+        }, 'Waiting before retry');
+
+        await sleep(delay);
+      }
+    }
+
+    return {
+      success: false,
+      message: 'Unexpected error in retry logic',
+      attemptCount: maxRetries
+    };
+  }
+
+  private handleConnectionLost(dbError: DatabaseError): void {
+    this.state.connected = false;
+    this.state.lastError = dbError;
+    dbConnectionsLost.inc({ database: 'mongodb', role: 'primary' });
+
+    log.error({
+      context: 'health-check',
+      error: {
+        code: dbError.code,
+        message: dbError.message,
+        category: dbError.category
+      }
+    }, 'MongoDB connection lost');
+
+    this.startReconnectionTimer();
+  }
+
+  /**
+   * Retry every 30 seconds until connected or disconnect() is called
+   */
+  private startReconnectionTimer(): void {
+    if (this.state.reconnectTimer) {
+      return;
+    }
+
+    log.info({
+      context: 'reconnection',
+      interval: this.RECONNECT_INTERVAL
+    }, 'Starting background MongoDB reconnection timer');
+
+    this.state.reconnectTimer = setInterval(async () => {
+      if (this.state.connected) {
+        this.stopReconnectionTimer();
+        return;
+      }
+
+      await this.reconnect();
+    }, this.RECONNECT_INTERVAL);
+  }
+
+  private stopReconnectionTimer(): void {
+    if (this.state.reconnectTimer) {
+      clearInterval(this.state.reconnectTimer);
+      this.state.reconnectTimer = null;
+    }
+  }
+}
+
+export const getMongoConnectionManager = (): MongoConnectionManager => {
+  return MongoConnectionManager.getInstance();
+};
+
+/**
+ * Get the MongoDB database handle
+ * 
+ * @returns Db once initialized, null otherwise
+ */
+export const getMongoDb = (): Db | null => {
+  return getMongoConnectionManager().getDb();
+};
+
+/**
+ * Close the MongoDB client; safe to call when MongoDB was never configured
+ */
+export const disconnectMongo = async (): Promise<void> => {
+  return getMongoConnectionManager().disconnect();
+};
@@ -0,0 +1,71 @@
+import { IOAuthProvider, OAuthClientCredentials, OAuthConfig } from '../models/oauth.types';
+import { EnvReader } from '../utils/env-reader';
+
+/**
+ * Mount point of the mock issuer, relative to apiUrl
+ */
+export const MOCK_OIDC_PATH = '/mock-oidc';
+export const MOCK_OIDC_PROVIDER_ID = 'mock';
+
+const credentials = (env: EnvReader, prefix: string): OAuthClientCredentials | undefined => {
+  const clientId = env.optional(`${prefix}_CLIENT_ID`);
+  const clientSecret = env.optional(`${prefix}_CLIENT_SECRET`);
+
+  return clientId && clientSecret ? { clientId, clientSecret } : undefined;
+};
+
+/**
+ * OAuth/OIDC configuration from environment variables
+ * 
+ * A provider is enabled when both its client id and secret are set.
+ * 
+ * - GOOGLE_CLIENT_ID / GOOGLE_CLIENT_SECRET: Sign in with Google
+ * - GITHUB_CLIENT_ID / GITHUB_CLIENT_SECRET: Sign in with GitHub
+ * - OIDC_ISSUER / OIDC_CLIENT_ID / OIDC_CLIENT_SECRET: Any OpenID Connect provider
+ * - OIDC_PROVIDER_ID: Name used in routes for that provider (default: oidc)
+ * - OIDC_SCOPES: Space-separated scopes (default: openid email profile)
+ * - MOCK_OIDC_ENABLED: Serve a mock issuer at /mock-oidc as provider 'mock'; ignored in production
+ * - MOCK_OIDC_EMAIL: Identity the mock issuer signs in by default (default: mock.user@example.com)
+ * - OAUTH_TRUSTED_PROVIDERS: Comma-separated providers allowed to link a verified email
+ *   to an existing account (default: none)
+ * 
+ * @param apiUrl - Public API base URL (BETTER_AUTH_URL) that providers redirect back to
+ * @param allowMockIssuer - Whether the environment profile permits the mock issuer
+ */
+export const parseOAuthConfig = (env: EnvReader, apiUrl: string, allowMockIssuer: boolean): OAuthConfig => {
+  const google = credentials(env, 'GOOGLE');
+  const github = credentials(env, 'GITHUB');
+  const oidcCredentials = credentials(env, 'OIDC');
+  const oidcIssuer = env.url('OIDC_ISSUER', '');
+  const oidc = oidcIssuer && oidcCredentials
+    ? {
+      ...oidcCredentials,
+      providerId: env.string('OIDC_PROVIDER_ID', 'oidc'),
+      discoveryUrl: `${oidcIssuer}/.well-known/openid-configuration`,
+      scopes: env.list('OIDC_SCOPES', ['openid', 'email', 'profile'], /\s+/),
+    }
+    : undefined;
+  const mockIssuer = {
+    enabled: env.boolean('MOCK_OIDC_ENABLED', false) && allowMockIssuer,
+    clientId: 'mock-client',
+    clientSecret: 'mock-secret',
+    defaultEmail: env.string('MOCK_OIDC_EMAIL', 'mock.user@example.com'),
+  };
+
+  const providers: IOAuthProvider[] = [
+    ...(google ? [{ id: 'google', kind: 'social' } as const] : []),
+    ...(github ? [{ id: 'github', kind: 'social' } as const] : []),
+    ...(oidc ? [{ id: oidc.providerId, kind: 'generic' } as const] : []),
+    ...(mockIssuer.enabled ? [{ id: MOCK_OIDC_PROVIDER_ID, kind: 'generic' } as const] : []),
+  ];
+
+  return {
+    apiUrl,
+    google,
+    github,
+    oidc,
+    mockIssuer,
+    providers,
+    trustedProviders: env.list('OAUTH_TRUSTED_PROVIDERS', []),
+  };
+};
@@ -0,0 +1,25 @@
+import { RateLimitConfig } from '../models/rate-limit.types';
+import { EnvReader } from '../utils/env-reader';
+
+/**
+ * Rate limiting configuration from environment variables
+ * 
+ * - RATE_LIMIT_STORE: 'memory' (default, single instance) or 'postgres' (shared across instances)
+ * - AUTH_RATE_LIMIT_WINDOW_MS: Throttle window for sign-in, sign-up and 2FA codes (default: 15 minutes)
+ * - AUTH_RATE_LIMIT_MAX_PER_IP: Attempts per IP per window (default: 20)
+ * - AUTH_RATE_LIMIT_MAX_PER_EMAIL: Attempts per email, or per signed-in user, per window (default: 10)
+ * - LOGIN_LOCKOUT_THRESHOLD: Failed sign-ins before the account is locked (default: 5)
+ * - LOGIN_LOCKOUT_FAILURE_WINDOW_MS: How long failed sign-ins are remembered (default: 1 hour)
+ * - LOGIN_LOCKOUT_BASE_MS: First lockout duration, doubled on every further failure (default: 1 minute)
+ * - LOGIN_LOCKOUT_MAX_MS: Upper bound for a single lockout (default: 1 hour)
+ */
+export const parseRateLimitConfig = (env: EnvReader): RateLimitConfig => ({
+  store: env.oneOf('RATE_LIMIT_STORE', ['memory', 'postgres'], 'memory'),
+  authWindowMs: env.int('AUTH_RATE_LIMIT_WINDOW_MS', 900000, { min: 1 }),
+  authMaxPerIp: env.int('AUTH_RATE_LIMIT_MAX_PER_IP', 20, { min: 1 }),
+  authMaxPerEmail: env.int('AUTH_RATE_LIMIT_MAX_PER_EMAIL', 10, { min: 1 }),
+  lockoutThreshold: env.int('LOGIN_LOCKOUT_THRESHOLD', 5, { min: 1 }),
+  lockoutFailureWindowMs: env.int('LOGIN_LOCKOUT_FAILURE_WINDOW_MS', 3600000, { min: 1 }),
+  lockoutBaseMs: env.int('LOGIN_LOCKOUT_BASE_MS', 60000, { min: 1 }),
+  lockoutMaxMs: env.int('LOGIN_LOCKOUT_MAX_MS', 3600000, { min: 1 }),
+});
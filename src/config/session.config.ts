@@ -0,0 +1,17 @@
+import { SessionConfig } from '../models/session.types';
+import { EnvReader } from '../utils/env-reader';
+
+/**
+ * Session configuration from environment variables
+ * 
+ * - SESSION_TTL: Session lifetime in seconds (default: 7 days)
+ * - SESSION_UPDATE_AGE: Minimum age in seconds before activity extends a session (default: 1 day)
+ * - SESSION_SLIDING_EXPIRY: Extend sessions on authenticated requests (default: true)
+ * - REFRESH_TOKEN_TTL: Refresh token lifetime in seconds (default: 30 days)
+ */
+export const parseSessionConfig = (env: EnvReader): SessionConfig => ({
+  sessionTtl: env.int('SESSION_TTL', 604800, { min: 1 }),
+  sessionUpdateAge: env.int('SESSION_UPDATE_AGE', 86400, { min: 0 }),
+  slidingExpiry: env.boolean('SESSION_SLIDING_EXPIRY', true),
+  refreshTokenTtl: env.int('REFRESH_TOKEN_TTL', 2592000, { min: 1 }),
+});
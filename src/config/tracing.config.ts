@@ -0,0 +1,17 @@
+import { TracingConfig } from '../models/tracing.types';
+import { EnvReader } from '../utils/env-reader';
+
+/**
+ * Tracing configuration from environment variables
+ * 
+ * - OTEL_TRACES_EXPORTER: 'otlp', 'console', 'memory' or 'none' (default: none)
+ * - OTEL_SERVICE_NAME: service.name resource attribute (default: express-backend)
+ * - OTEL_TRACES_SAMPLER_ARG: Ratio of new traces to sample, 0 to 1 (default: 1)
+ * - OTEL_EXPORTER_OTLP_ENDPOINT / OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: Collector
+ *   URL, read by the OTLP exporter itself (default: http://localhost:4318/v1/traces)
+ */
+export const parseTracingConfig = (env: EnvReader): TracingConfig => ({
+  exporter: env.oneOf('OTEL_TRACES_EXPORTER', ['otlp', 'console', 'memory', 'none'], 'none'),
+  serviceName: env.string('OTEL_SERVICE_NAME', 'express-backend'),
+  sampleRatio: env.float('OTEL_TRACES_SAMPLER_ARG', 1, { min: 0, max: 1 }),
+});
@@ -0,0 +1,77 @@
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  InMemorySpanExporter,
+  NodeTracerProvider,
+  ParentBasedSampler,
+  SimpleSpanProcessor,
+  SpanProcessor,
+  TraceIdRatioBasedSampler,
+} from '@opentelemetry/sdk-trace-node';
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+import { TracingConfig } from '../models/tracing.types';
+import { config } from './app.config';
+import logger from './logger.config';
+
+const log = logger.child({ component: 'tracing' });
+
+let provider: NodeTracerProvider | null = null;
+let memoryExporter: InMemorySpanExporter | null = null;
+
+function createSpanProcessor(config: TracingConfig): SpanProcessor {
+  switch (config.exporter) {
+    case 'otlp':
+      return new BatchSpanProcessor(new OTLPTraceExporter());
+    case 'console':
+      return new SimpleSpanProcessor(new ConsoleSpanExporter());
+    default:
+      memoryExporter = new InMemorySpanExporter();
+      return new SimpleSpanProcessor(memoryExporter);
+  }
+}
+
+/**
+ * Register the global tracer provider
+ * 
+ * Installs the W3C traceparent propagator and the AsyncLocalStorage context
+ * manager, so spans started anywhere in a request become children of its server
+ * span. Does nothing when the exporter is 'none': the API then hands out no-op
+ * spans. Call once, before the server starts.
+ */
+export function startTracing(tracingConfig: TracingConfig = config.tracing): void {
+  if (provider || tracingConfig.exporter === 'none') {
+    return;
+  }
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ [ATTR_SERVICE_NAME]: tracingConfig.serviceName }),
+    sampler: new ParentBasedSampler({ root: new TraceIdRatioBasedSampler(tracingConfig.sampleRatio) }),
+    spanProcessors: [createSpanProcessor(tracingConfig)],
+  });
+  provider.register();
+
+  log.info({ exporter: tracingConfig.exporter, serviceName: tracingConfig.serviceName }, 'Tracing started');
+}
+
+/**
+ * Spans recorded by the 'memory' exporter
+ * 
+ * @returns The exporter, or null when another exporter is configured
+ */
+export function getMemorySpanExporter(): InMemorySpanExporter | null {
+  return memoryExporter;
+}
+
+/**
+ * Export spans still buffered and stop the provider
+ */
+export async function shutdownTracing(): Promise<void> {
+  if (!provider) {
+    return;
+  }
+
+  await provider.shutdown();
+  provider = null;
+}
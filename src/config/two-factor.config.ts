@@ -0,0 +1,20 @@
+import { TwoFactorConfig } from '../models/two-factor.types';
+import { EnvReader } from '../utils/env-reader';
+
+/**
+ * Two-factor authentication configuration from environment variables
+ * 
+ * - TWO_FACTOR_ISSUER: Issuer shown in authenticator apps (default: Express Backend)
+ * - TWO_FACTOR_ENCRYPTION_KEY: Secret used to encrypt TOTP secrets (default: AUTH_SECRET)
+ * - TWO_FACTOR_CHALLENGE_TTL: Seconds allowed to enter the code after the password (default: 300)
+ * - TWO_FACTOR_MAX_ATTEMPTS: Wrong codes allowed per sign-in attempt (default: 5)
+ * 
+ * @param authSecret - Parsed AUTH_SECRET, the encryption key fallback
+ */
+export const parseTwoFactorConfig = (env: EnvReader, authSecret: string): TwoFactorConfig => ({
+  issuer: env.string('TWO_FACTOR_ISSUER', 'Express Backend'),
+  encryptionKey: env.string('TWO_FACTOR_ENCRYPTION_KEY', authSecret),
+  challengeTtl: env.int('TWO_FACTOR_CHALLENGE_TTL', 300, { min: 1 }),
+  maxChallengeAttempts: env.int('TWO_FACTOR_MAX_ATTEMPTS', 5, { min: 1 }),
+  recoveryCodeCount: 10,
+});
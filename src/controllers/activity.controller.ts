@@ -0,0 +1,21 @@
+import { Request, Response } from 'express';
+import { ActivityService } from '../services/activity.service';
+import { IActivityQuery } from '../models/activity.types';
+import { assertAuthenticated } from '../middleware/auth.middleware';
+
+export class ActivityController {
+  constructor(private activityService: ActivityService) {}
+
+  async getMyActivity(req: Request, res: Response): Promise<void> {
+    assertAuthenticated(req);
+    const query = res.locals.validated.query as IActivityQuery;
+    const result = await this.activityService.getSummary(req.user.id, query);
+    res.status(200).json(result);
+  }
+
+  async getUserActivity(req: Request, res: Response): Promise<void> {
+    const query = res.locals.validated.query as IActivityQuery;
+    const result = await this.activityService.getSummary(req.params.userId as string, query);
+    res.status(200).json(result);
+  }
+}
@@ -0,0 +1,27 @@
+import { Request, Response } from 'express';
+import { ApiKeyService } from '../services/api-key.service';
+import { assertAuthenticated } from '../middleware/auth.middleware';
+import { ICreateApiKeyRequest } from '../models/api-key.types';
+
+export class ApiKeyController {
+  constructor(private apiKeyService: ApiKeyService) {}
+
+  async list(req: Request, res: Response): Promise<void> {
+    assertAuthenticated(req);
+    const apiKeys = await this.apiKeyService.list(req.user.id);
+    res.status(200).json({ apiKeys });
+  }
+
+  async create(req: Request, res: Response): Promise<void> {
+    assertAuthenticated(req);
+    const data: ICreateApiKeyRequest = req.body;
+    const result = await this.apiKeyService.create(req.user.id, data);
+    res.status(201).json(result);
+  }
+
+  async revoke(req: Request, res: Response): Promise<void> {
+    assertAuthenticated(req);
+    await this.apiKeyService.revoke(req.user.id, req.params.id as string);
+    res.status(204).end();
+  }
+}
@@ -0,0 +1,13 @@
+import { Request, Response } from 'express';
+import { AuditService } from '../services/audit.service';
+import { IAuditQuery } from '../models/audit.types';
+
+export class AuditController {
+  constructor(private auditService: AuditService) {}
+
+  async query(_req: Request, res: Response): Promise<void> {
+    const query = res.locals.validated.query as IAuditQuery;
+    const result = await this.auditService.query(query);
+    res.status(200).json(result);
+  }
+}
@@ -1,51 +1,117 @@
 import { Request, Response } from 'express';
 import { AuthService } from '../services/auth.service';
-import { ISignUpRequest, ISignInRequest } from '../models/auth.types';
-import { AuthRequest } from '../middleware/auth.middleware';
+import {
+  ISignUpRequest,
+  ISignInRequest,
+  IProfileResponse,
+  IForgotPasswordRequest,
+  IResetPasswordRequest,
+  ISendVerificationRequest,
+  IVerifyEmailRequest,
+  IRefreshRequest,
+} from '../models/auth.types';
+import { ITwoFactorVerifyRequest } from '../models/two-factor.types';
+import { IOAuthCompleteQuery } from '../models/oauth.types';
+import { assertSession } from '../middleware/auth.middleware';
+import { toAuthUserDto, toSessionInfoDto } from '../utils/auth.mapper';
 
 export class AuthController {
   constructor(private authService: AuthService) {}
 
   async signUp(req: Request, res: Response): Promise<void> {
-    try {
-      const signUpData: ISignUpRequest = req.body;
-      const result = await this.authService.signUp(signUpData);
-      res.status(201).json(result);
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Sign up failed';
-      res.status(400).json({ error: message });
-    }
+    const signUpData: ISignUpRequest = req.body;
+    const result = await this.authService.signUp(signUpData);
+    res.status(201).json(result);
   }
 
   async signIn(req: Request, res: Response): Promise<void> {
-    try {
-      const signInData: ISignInRequest = req.body;
-      const result = await this.authService.signIn(signInData);
-      res.status(200).json(result);
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Sign in failed';
-      res.status(401).json({ error: message });
-    }
-  }
-
-  async getProfile(req: AuthRequest, res: Response): Promise<void> {
-    try {
-      res.status(200).json({ user: req.user, session: req.session });
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to get profile';
-      res.status(400).json({ error: message });
-    }
-  }
-
-  async signOut(req: AuthRequest, res: Response): Promise<void> {
-    try {
-      const authHeader = req.headers.authorization;
-      const token = authHeader?.substring(7) || '';
-      await this.authService.signOut(token);
-      res.status(200).json({ message: 'Signed out successfully' });
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Sign out failed';
-      res.status(400).json({ error: message });
-    }
+    const signInData: ISignInRequest = req.body;
+    const result = await this.authService.signIn(signInData);
+    res.status(200).json(result);
+  }
+
+  async listOAuthProviders(_req: Request, res: Response): Promise<void> {
+    res.status(200).json({ providers: this.authService.listOAuthProviders() });
+  }
+
+  async startOAuth(req: Request, res: Response): Promise<void> {
+    const { url, cookies } = await this.authService.startOAuth(req.params.provider as string);
+    cookies.forEach((cookie) => res.append('Set-Cookie', cookie));
+    res.redirect(302, url);
+  }
+
+  async completeOAuth(req: Request, res: Response): Promise<void> {
+    const { error } = res.locals.validated.query as IOAuthCompleteQuery;
+    const result = await this.authService.completeOAuth(req.headers.cookie ?? '', error);
+    res.status(200).json(result);
+  }
+
+  async verifyTwoFactor(req: Request, res: Response): Promise<void> {
+    const data: ITwoFactorVerifyRequest = req.body;
+    const result = await this.authService.verifyTwoFactor(data, { ipAddress: req.ip, userAgent: req.get('user-agent') });
+    res.status(200).json(result);
+  }
+
+  async refresh(req: Request, res: Response): Promise<void> {
+    const data: IRefreshRequest = req.body;
+    const result = await this.authService.refresh(data, { ipAddress: req.ip, userAgent: req.get('user-agent') });
+    res.status(200).json(result);
+  }
+
+  async getProfile(req: Request, res: Response): Promise<void> {
+    assertSession(req);
+    const profile: IProfileResponse = {
+      user: toAuthUserDto(req.user),
+      session: toSessionInfoDto(req.session),
+    };
+    res.status(200).json(profile);
+  }
+
+  async signOut(req: Request, res: Response): Promise<void> {
+    assertSession(req);
+    await this.authService.signOut(req.session.token);
+    res.status(200).json({ message: 'Signed out successfully' });
+  }
+
+  async forgotPassword(req: Request, res: Response): Promise<void> {
+    const data: IForgotPasswordRequest = req.body;
+    await this.authService.forgotPassword(data);
+    res.status(202).json({ message: 'If an account exists for this email, a reset link has been sent' });
+  }
+
+  async resetPassword(req: Request, res: Response): Promise<void> {
+    const data: IResetPasswordRequest = req.body;
+    await this.authService.resetPassword(data);
+    res.status(200).json({ message: 'Password has been reset' });
+  }
+
+  async sendVerification(req: Request, res: Response): Promise<void> {
+    const data: ISendVerificationRequest = req.body;
+    await this.authService.sendVerification(data);
+    res.status(202).json({ message: 'If the email needs verifying, a verification link has been sent' });
+  }
+
+  async verifyEmail(req: Request, res: Response): Promise<void> {
+    const { token } = (req.method === 'GET' ? res.locals.validated.query : req.body) as IVerifyEmailRequest;
+    await this.authService.verifyEmail(token);
+    res.status(200).json({ message: 'Email verified' });
+  }
+
+  async listSessions(req: Request, res: Response): Promise<void> {
+    assertSession(req);
+    const sessions = await this.authService.listSessions(req.session);
+    res.status(200).json({ sessions });
+  }
+
+  async revokeSession(req: Request, res: Response): Promise<void> {
+    assertSession(req);
+    await this.authService.revokeSession(req.session, req.params.id as string);
+    res.status(204).end();
+  }
+
+  async revokeOtherSessions(req: Request, res: Response): Promise<void> {
+    assertSession(req);
+    const result = await this.authService.revokeOtherSessions(req.session);
+    res.status(200).json(result);
   }
 }
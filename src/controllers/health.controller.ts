@@ -0,0 +1,21 @@
+import { Request, Response } from 'express';
+import { HealthService } from '../services/health.service';
+
+export class HealthController {
+  constructor(private healthService: HealthService) {}
+
+  async getLiveness(_req: Request, res: Response): Promise<void> {
+    res.status(200).json(this.healthService.getLiveness());
+  }
+
+  async getReadiness(_req: Request, res: Response): Promise<void> {
+    try {
+      const result = await this.healthService.getReadiness();
+      const statusCode = result.status === 'unhealthy' ? 503 : 200;
+      res.status(statusCode).json(result);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Readiness check failed';
+      res.status(503).json({ status: 'unhealthy', error: message, timestamp: new Date() });
+    }
+  }
+}
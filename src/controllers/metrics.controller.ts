@@ -0,0 +1,11 @@
+import { Request, Response } from 'express';
+import { MetricsService } from '../services/metrics.service';
+
+export class MetricsController {
+  constructor(private metricsService: MetricsService) {}
+
+  async getMetrics(_req: Request, res: Response): Promise<void> {
+    res.set('Content-Type', this.metricsService.contentType);
+    res.send(await this.metricsService.render());
+  }
+}
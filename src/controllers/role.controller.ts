@@ -0,0 +1,31 @@
+import { Request, Response } from 'express';
+import { RoleService } from '../services/role.service';
+import { assertAuthenticated } from '../middleware/auth.middleware';
+import { IGrantRoleRequest } from '../models/rbac.types';
+
+export class RoleController {
+  constructor(private roleService: RoleService) {}
+
+  async listRoles(_req: Request, res: Response): Promise<void> {
+    const roles = await this.roleService.listRoles();
+    res.status(200).json({ roles });
+  }
+
+  async getUserRoles(req: Request, res: Response): Promise<void> {
+    const roles = await this.roleService.getUserRoles(req.params.userId as string);
+    res.status(200).json({ userId: req.params.userId, roles });
+  }
+
+  async grantRole(req: Request, res: Response): Promise<void> {
+    assertAuthenticated(req);
+    const { role }: IGrantRoleRequest = req.body;
+    const roles = await this.roleService.grantRole(req.params.userId as string, role, req.user.id);
+    res.status(201).json({ userId: req.params.userId, roles });
+  }
+
+  async revokeRole(req: Request, res: Response): Promise<void> {
+    assertAuthenticated(req);
+    const roles = await this.roleService.revokeRole(req.params.userId as string, req.params.role as string, req.user.id);
+    res.status(200).json({ userId: req.params.userId, roles });
+  }
+}
@@ -0,0 +1,34 @@
+import { Request, Response } from 'express';
+import { TwoFactorService } from '../services/two-factor.service';
+import { assertAuthenticated } from '../middleware/auth.middleware';
+import { ITwoFactorCodeRequest, ITwoFactorVerifyRequest } from '../models/two-factor.types';
+
+export class TwoFactorController {
+  constructor(private twoFactorService: TwoFactorService) {}
+
+  async getStatus(req: Request, res: Response): Promise<void> {
+    assertAuthenticated(req);
+    const status = await this.twoFactorService.getStatus(req.user.id);
+    res.status(200).json(status);
+  }
+
+  async enroll(req: Request, res: Response): Promise<void> {
+    assertAuthenticated(req);
+    const enrollment = await this.twoFactorService.enroll(req.user);
+    res.status(201).json(enrollment);
+  }
+
+  async confirmEnrollment(req: Request, res: Response): Promise<void> {
+    assertAuthenticated(req);
+    const { code }: ITwoFactorCodeRequest = req.body;
+    const status = await this.twoFactorService.confirmEnrollment(req.user.id, code);
+    res.status(200).json(status);
+  }
+
+  async disable(req: Request, res: Response): Promise<void> {
+    assertAuthenticated(req);
+    const data: Omit<ITwoFactorVerifyRequest, 'challengeToken'> = req.body;
+    const status = await this.twoFactorService.disable(req.user.id, data);
+    res.status(200).json(status);
+  }
+}
@@ -0,0 +1,21 @@
+import { Request, Response } from 'express';
+import { UserProfileService } from '../services/user-profile.service';
+import { IUpdateUserProfileRequest } from '../models/user-profile.types';
+import { assertAuthenticated } from '../middleware/auth.middleware';
+
+export class UserProfileController {
+  constructor(private userProfileService: UserProfileService) {}
+
+  async getMe(req: Request, res: Response): Promise<void> {
+    assertAuthenticated(req);
+    const result = await this.userProfileService.getProfile(req.user);
+    res.status(200).json(result);
+  }
+
+  async updateMe(req: Request, res: Response): Promise<void> {
+    assertAuthenticated(req);
+    const updateData: IUpdateUserProfileRequest = req.body;
+    const result = await this.userProfileService.updateProfile(req.user, updateData);
+    res.status(200).json(result);
+  }
+}
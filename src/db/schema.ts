@@ -4,26 +4,261 @@
  * This file defines the database schema using Drizzle's schema builder.
  * Tables and relationships are defined here using Drizzle's type-safe API.
  * 
+ * Tables owned by better-auth (user, session, account, verification) are
+ * managed by better-auth itself and are intentionally not declared here.
+ * 
  * @module db/schema
  */
 
-// Import Drizzle schema builders for PostgreSQL
-// Uncomment and add additional imports as needed when defining tables
-// import { pgTable, serial, text, timestamp, varchar, boolean, integer } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { boolean, index, integer, jsonb, pgTable, primaryKey, serial, text, timestamp, uuid, varchar } from 'drizzle-orm/pg-core';
 
 /**
- * Database schema object
+ * Application-specific user profile data
  * 
- * Currently empty - tables will be added as needed.
- * This export is used for type inference in the Drizzle client.
+ * Stores fields that better-auth's user table does not provide. Rows are keyed
+ * by the better-auth user id and created lazily on first update.
+ */
+export const userProfiles = pgTable('user_profiles', {
+  userId: text('user_id').primaryKey(),
+  displayName: varchar('display_name', { length: 100 }),
+  avatarUrl: text('avatar_url'),
+  locale: varchar('locale', { length: 35 }),
+  timezone: varchar('timezone', { length: 64 }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+export type UserProfileRow = typeof userProfiles.$inferSelect;
+export type NewUserProfileRow = typeof userProfiles.$inferInsert;
+
+/**
+ * Shared rate-limit counters and lockouts
  * 
- * Example table definition:
+ * Used when RATE_LIMIT_STORE=postgres so that limits hold across instances.
+ */
+export const rateLimits = pgTable('rate_limits', {
+  key: text('key').primaryKey(),
+  count: integer('count').notNull().default(0),
+  resetAt: timestamp('reset_at', { withTimezone: true }).notNull(),
+  lockedUntil: timestamp('locked_until', { withTimezone: true }),
+});
+
+export type RateLimitRow = typeof rateLimits.$inferSelect;
+
+/**
+ * Named roles that can be assigned to users
+ */
+export const roles = pgTable('roles', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 64 }).notNull().unique(),
+  description: text('description'),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+/**
+ * Fine-grained permissions, named `<resource>:<action>`
+ */
+export const permissions = pgTable('permissions', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 128 }).notNull().unique(),
+  description: text('description'),
+});
+
+/**
+ * Permissions granted by each role
+ */
+export const rolePermissions = pgTable('role_permissions', {
+  roleId: integer('role_id').notNull().references(() => roles.id, { onDelete: 'cascade' }),
+  permissionId: integer('permission_id').notNull().references(() => permissions.id, { onDelete: 'cascade' }),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.roleId, table.permissionId] }),
+}));
+
+/**
+ * Roles assigned to better-auth users
+ */
+export const userRoles = pgTable('user_roles', {
+  userId: text('user_id').notNull(),
+  roleId: integer('role_id').notNull().references(() => roles.id, { onDelete: 'cascade' }),
+  grantedBy: text('granted_by'),
+  grantedAt: timestamp('granted_at', { withTimezone: true }).notNull().defaultNow(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.userId, table.roleId] }),
+}));
+
+export type RoleRow = typeof roles.$inferSelect;
+export type UserRoleRow = typeof userRoles.$inferSelect;
+
+/**
+ * Hashes of one-time tokens that have already been redeemed
  * 
- * export const users = pgTable('users', {
- *   id: serial('id').primaryKey(),
- *   email: text('email').notNull().unique(),
- *   name: text('name'),
- *   createdAt: timestamp('created_at').defaultNow(),
- * });
+ * better-auth's email verification tokens are stateless JWTs; recording them
+ * here on use is what makes them single-use. Rows can be purged after expiry.
+ */
+export const consumedTokens = pgTable('consumed_tokens', {
+  tokenHash: varchar('token_hash', { length: 64 }).primaryKey(),
+  purpose: varchar('purpose', { length: 32 }).notNull(),
+  consumedAt: timestamp('consumed_at', { withTimezone: true }).notNull().defaultNow(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+});
+
+/**
+ * Rotating refresh tokens for API clients
+ * 
+ * Tokens issued from the same sign-in share a family. Each token can be rotated
+ * once; presenting an already-rotated token is treated as theft and revokes the
+ * whole family along with the sessions it issued. Only SHA-256 hashes are stored.
+ */
+export const refreshTokens = pgTable('refresh_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  familyId: uuid('family_id').notNull(),
+  userId: text('user_id').notNull(),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  sessionToken: text('session_token').notNull(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  rotatedAt: timestamp('rotated_at', { withTimezone: true }),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+}, (table) => ({
+  familyIdx: index('refresh_tokens_family_id_idx').on(table.familyId),
+  userIdx: index('refresh_tokens_user_id_idx').on(table.userId),
+  sessionIdx: index('refresh_tokens_session_token_idx').on(table.sessionToken),
+}));
+
+export type RefreshTokenRow = typeof refreshTokens.$inferSelect;
+export type NewRefreshTokenRow = typeof refreshTokens.$inferInsert;
+
+/**
+ * TOTP two-factor enrollment per user
+ * 
+ * The shared secret is stored AES-256-GCM encrypted. `enabled` stays false
+ * until the user proves their authenticator works. `lastUsedStep` is the last
+ * accepted TOTP time step, so a code cannot be replayed within its window.
+ */
+export const twoFactor = pgTable('two_factor', {
+  userId: text('user_id').primaryKey(),
+  secret: text('secret').notNull(),
+  enabled: boolean('enabled').notNull().default(false),
+  lastUsedStep: integer('last_used_step'),
+  enabledAt: timestamp('enabled_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+/**
+ * Single-use recovery codes, stored as SHA-256 hashes
+ */
+export const twoFactorRecoveryCodes = pgTable('two_factor_recovery_codes', {
+  id: serial('id').primaryKey(),
+  userId: text('user_id').notNull().references(() => twoFactor.userId, { onDelete: 'cascade' }),
+  codeHash: varchar('code_hash', { length: 64 }).notNull(),
+  usedAt: timestamp('used_at', { withTimezone: true }),
+}, (table) => ({
+  userIdx: index('two_factor_recovery_codes_user_id_idx').on(table.userId),
+}));
+
+/**
+ * Pending sign-ins waiting for a second factor
+ * 
+ * Issued after a correct password when 2FA is enabled, and exchanged for a
+ * session by POST /api/auth/2fa/verify. Only the SHA-256 of the token is stored.
+ */
+export const twoFactorChallenges = pgTable('two_factor_challenges', {
+  tokenHash: varchar('token_hash', { length: 64 }).primaryKey(),
+  userId: text('user_id').notNull(),
+  attempts: integer('attempts').notNull().default(0),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+/**
+ * Sessions opened by a first factor alone for a user with 2FA enabled
+ * 
+ * better-auth opens a session on every sign-in, including social sign-ins that
+ * never pass through our routes. A session listed here is rejected until it is
+ * deleted, so only POST /api/auth/2fa/verify yields a usable session.
+ */
+export const twoFactorPendingSessions = pgTable('two_factor_pending_sessions', {
+  sessionToken: text('session_token').primaryKey(),
+  userId: text('user_id').notNull(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+export type TwoFactorRow = typeof twoFactor.$inferSelect;
+export type TwoFactorChallengeRow = typeof twoFactorChallenges.$inferSelect;
+
+/**
+ * Long-lived API keys for machine-to-machine access
+ * 
+ * Keys look like `ak_<prefix>_<secret>`. The prefix is stored in clear so a key
+ * can be identified in listings and looked up; only the SHA-256 of the full key
+ * is stored. `scopes` are permission names the key may use, capped at request
+ * time by the owner's current permissions.
+ */
+export const apiKeys = pgTable('api_keys', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: text('user_id').notNull(),
+  name: varchar('name', { length: 100 }).notNull(),
+  prefix: varchar('prefix', { length: 16 }).notNull().unique(),
+  keyHash: varchar('key_hash', { length: 64 }).notNull(),
+  scopes: text('scopes').array().notNull().default(sql`'{}'::text[]`),
+  expiresAt: timestamp('expires_at', { withTimezone: true }),
+  lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+}, (table) => ({
+  userIdx: index('api_keys_user_id_idx').on(table.userId),
+}));
+
+export type ApiKeyRow = typeof apiKeys.$inferSelect;
+export type NewApiKeyRow = typeof apiKeys.$inferInsert;
+
+/**
+ * Append-only log of security-relevant events
+ * 
+ * The migration installs a trigger that rejects UPDATE and DELETE, so rows can
+ * only ever be inserted.
+ */
+export const auditEvents = pgTable('audit_events', {
+  id: uuid('id').primaryKey(),
+  type: varchar('type', { length: 64 }).notNull(),
+  outcome: varchar('outcome', { length: 16 }).notNull(),
+  actorId: text('actor_id'),
+  targetId: text('target_id'),
+  ipAddress: varchar('ip_address', { length: 64 }),
+  userAgent: text('user_agent'),
+  requestId: varchar('request_id', { length: 128 }),
+  metadata: jsonb('metadata').$type<Record<string, unknown>>().notNull().default({}),
+  occurredAt: timestamp('occurred_at', { withTimezone: true }).notNull(),
+}, (table) => ({
+  occurredAtIdx: index('audit_events_occurred_at_idx').on(table.occurredAt),
+  actorIdx: index('audit_events_actor_id_idx').on(table.actorId, table.occurredAt),
+  typeIdx: index('audit_events_type_idx').on(table.type, table.occurredAt),
+}));
+
+export type AuditEventRow = typeof auditEvents.$inferSelect;
+
+/**
+ * Database schema object
+ * 
+ * Aggregates all table definitions.
+ * This export is used for type inference in the Drizzle client.
  */
-export const schema = {};
+export const schema = {
+  userProfiles,
+  rateLimits,
+  roles,
+  permissions,
+  rolePermissions,
+  userRoles,
+  consumedTokens,
+  refreshTokens,
+  twoFactor,
+  twoFactorRecoveryCodes,
+  twoFactorChallenges,
+  twoFactorPendingSessions,
+  apiKeys,
+  auditEvents,
+};
@@ -1,34 +1,90 @@
 import express, { Request, Response } from 'express';
 import cors from 'cors';
-import dotenv from 'dotenv';
 import authRoutes from './routes/auth.routes';
-import { auth } from './config/auth.config';
+import healthRoutes from './routes/health.routes';
+import metricsRoutes from './routes/metrics.routes';
+import userRoutes from './routes/user.routes';
+import adminRoutes from './routes/admin.routes';
+import apiKeyRoutes from './routes/api-key.routes';
+import { toNodeHandler } from 'better-auth/node';
+import { getAuth } from './config/auth.config';
+import { config, configWarnings, summarizeConfig } from './config/app.config';
+import { MOCK_OIDC_PATH } from './config/oauth.config';
+import { createMockOidcIssuer } from './mock/oidc-issuer';
 import logger from './config/logger.config';
 import requestLogger from './middleware/logger.middleware';
+import requestContext, { REQUEST_ID_HEADER } from './middleware/request-context.middleware';
+import traceRequest from './middleware/tracing.middleware';
+import { startTracing } from './config/tracing';
+import trackActivity from './middleware/activity.middleware';
+import { SESSION_EXPIRES_HEADER } from './middleware/auth.middleware';
+import { errorHandler, notFoundHandler } from './middleware/error.middleware';
 
-dotenv.config();
+// Loading app.config validated the environment. The production profile refuses
+// to start on any problem, so warnings only come from development and test
+logger.info({ environment: config.environment, config: summarizeConfig(config) }, 'Configuration loaded');
+for (const warning of configWarnings) {
+  logger.warn({ problem: warning }, 'Configuration problem');
+}
+
+// Exporter from OTEL_TRACES_EXPORTER; spans are no-ops when unset
+startTracing();
 
 const app = express();
-const PORT = process.env.PORT || 3000;
+const PORT = config.server.port;
+
+// req.ip keys rate limits and is recorded in audit events; behind a proxy it
+// would otherwise be the proxy's address
+app.set('trust proxy', config.server.trustProxyHops);
 
 // Middleware
-app.use(cors());
+app.use(traceRequest);
+app.use(requestContext);
+app.use(cors({ exposedHeaders: [REQUEST_ID_HEADER, SESSION_EXPIRES_HEADER] }));
 app.use(express.json());
 app.use(requestLogger);
-
-// Better-auth handler - mount before other routes
-app.use('/api/auth', auth.handler);
+// Authenticated requests feed the MongoDB activity log (needs MONGODB_URI)
+if (config.activity.enabled) {
+  app.use(trackActivity);
+}
 
 // Routes
+app.use('/api/auth/api-keys', apiKeyRoutes);
 app.use('/api/auth', authRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/admin', adminRoutes);
+
+// Remaining better-auth endpoints (the OAuth redirects and callbacks; see DISABLED_PATHS in
+// auth.config) - after our own /api/auth routes so those take precedence.
+// Answered with 503 until the database is connected
+app.all('/api/auth/*splat', toNodeHandler((request) => getAuth().handler(request)));
 
 app.get('/', (_req: Request, res: Response) => {
   res.json({ message: 'Hello from Express + TypeScript + Bun!' });
 });
 
-app.get('/health', (_req: Request, res: Response) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
-});
+// Offline OIDC provider for development and integration tests (MOCK_OIDC_ENABLED)
+if (config.oauth.mockIssuer.enabled) {
+  app.use(MOCK_OIDC_PATH, createMockOidcIssuer({
+    issuer: `${config.oauth.apiUrl}${MOCK_OIDC_PATH}`,
+    clientId: config.oauth.mockIssuer.clientId,
+    clientSecret: config.oauth.mockIssuer.clientSecret,
+    defaultEmail: config.oauth.mockIssuer.defaultEmail,
+  }));
+  logger.warn({ path: MOCK_OIDC_PATH }, 'Mock OIDC issuer enabled - anyone can sign in as any email');
+}
+
+// Liveness (/health, /health/live) and readiness (/health/ready) probes
+app.use('/health', healthRoutes);
+
+// Prometheus scrape endpoint (basic auth when METRICS_USERNAME/METRICS_PASSWORD are set)
+if (config.metrics.enabled) {
+  app.use('/metrics', metricsRoutes);
+}
+
+// Error handling - must be registered after all routes
+app.use(notFoundHandler);
+app.use(errorHandler);
 
 // Start server
 const server = app.listen(PORT, async () => {
@@ -42,12 +98,48 @@ const server = app.listen(PORT, async () => {
     
     if (result.success) {
       logger.info('Database connected successfully');
+      // better-auth runs on this pool; if the database comes up later it is
+      // created by the first request that needs it
+      getAuth();
     } else {
       logger.error({ error: result.message }, 'Database connection failed');
     }
   } catch (error) {
     logger.error({ error: error instanceof Error ? error.message : error }, 'Database connection failed');
   }
+
+  // Apply pending migrations (DB_MIGRATE_ON_STARTUP) or report them; readiness
+  // fails until the schema is current, and retries this if the database is down
+  try {
+    const { getConnectionManager } = await import('./config/database');
+
+    if (getConnectionManager().isConnected()) {
+      const { getMigrationService } = await import('./services/migration.service');
+      await getMigrationService().prepareSchema();
+    }
+  } catch (error) {
+    logger.error({ error: error instanceof Error ? error.message : error }, 'Database migration failed');
+  }
+
+  // Initialize MongoDB connection (optional - only when MONGODB_URI is set)
+  try {
+    const { getMongoConnectionManager } = await import('./config/mongodb');
+    const mongoConnectionManager = getMongoConnectionManager();
+
+    if (mongoConnectionManager.isConfigured()) {
+      const result = await mongoConnectionManager.initializeConnection();
+
+      if (result.success) {
+        logger.info('MongoDB connected successfully');
+      } else {
+        logger.error({ error: result.message }, 'MongoDB connection failed');
+      }
+    } else {
+      logger.info('MONGODB_URI not set, skipping MongoDB connection');
+    }
+  } catch (error) {
+    logger.error({ error: error instanceof Error ? error.message : error }, 'MongoDB connection failed');
+  }
 });
 
 // Graceful shutdown handler
@@ -59,10 +151,20 @@ const gracefulShutdown = async (signal: string) => {
     logger.info('HTTP server closed');
     
     try {
+      // Write queued audit events while the databases are still connected
+      const { getAuditService } = await import('./services/audit.service');
+      const { getActivityService } = await import('./services/activity.service');
+      await Promise.all([getAuditService().flush(), getActivityService().flush()]);
+
       // Close database connections
       const { disconnectDatabase } = await import('./config/database');
-      await disconnectDatabase();
+      const { disconnectMongo } = await import('./config/mongodb');
+      await Promise.all([disconnectDatabase(), disconnectMongo()]);
       logger.info('Database connections closed');
+
+      // Export spans still buffered, including those from shutdown
+      const { shutdownTracing } = await import('./config/tracing');
+      await shutdownTracing();
       
       logger.info('Graceful shutdown completed');
       process.exit(0);
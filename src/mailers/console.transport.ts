@@ -0,0 +1,26 @@
+import { IMailMessage, IMailTransport } from '../models/mail.types';
+
+/**
+ * Development transport - prints messages to stdout instead of sending them
+ * 
+ * Writes directly to stdout rather than through the logger, whose redaction
+ * would mask the tokens in reset and verification links.
+ */
+export class ConsoleMailTransport implements IMailTransport {
+  readonly name = 'console';
+
+  async send(message: IMailMessage & { from: string }): Promise<void> {
+    process.stdout.write(
+      [
+        '----- email (console transport) -----',
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        '',
+        message.text,
+        '-------------------------------------',
+        '',
+      ].join('\n')
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { IMailMessage, IMailTransport } from '../models/mail.types';
+
+/**
+ * Development/test transport - writes each message to a .eml file
+ * 
+ * Lets integration tests read the delivered message (and the token in it)
+ * without a mail server.
+ */
+export class FileMailTransport implements IMailTransport {
+  readonly name = 'file';
+
+  constructor(private directory: string) {}
+
+  async send(message: IMailMessage & { from: string }): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    const fileName = `${Date.now()}-${randomUUID()}.eml`;
+    const content = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+    ].join('\r\n');
+
+    await writeFile(join(this.directory, fileName), content, 'utf8');
+  }
+}
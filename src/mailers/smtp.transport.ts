@@ -0,0 +1,29 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { IMailMessage, IMailTransport, MailConfig } from '../models/mail.types';
+
+/**
+ * Production transport - delivers messages through an SMTP server
+ */
+export class SmtpMailTransport implements IMailTransport {
+  readonly name = 'smtp';
+  private readonly transporter: Transporter;
+
+  constructor(config: MailConfig['smtp']) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    });
+  }
+
+  async send(message: IMailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
@@ -0,0 +1,40 @@
+import { Request, Response, NextFunction } from 'express';
+import { getActivityService } from '../services/activity.service';
+import { getRequestContext } from '../utils/request-context';
+import { routePattern } from '../utils/route-pattern';
+
+/**
+ * Record each authenticated request as a user activity event
+ * 
+ * The event is built when the response finishes, once requireAuth has set
+ * req.principal and the status is known; unauthenticated requests are skipped.
+ * Writes are queued and batched, so tracking never delays or fails a request.
+ * Register after requestContext and before the routes.
+ */
+export const trackActivity = (req: Request, res: Response, next: NextFunction): void => {
+  const startTime = Date.now();
+  const context = getRequestContext();
+
+  res.on('finish', () => {
+    if (!req.principal) {
+      return;
+    }
+
+    getActivityService().record({
+      userId: req.principal.userId,
+      method: req.method,
+      route: routePattern(req),
+      statusCode: res.statusCode,
+      durationMs: Date.now() - startTime,
+      authMethod: req.principal.method,
+      ipAddress: context?.ipAddress ?? null,
+      userAgent: context?.userAgent ?? null,
+      requestId: context?.requestId ?? null,
+      occurredAt: new Date(startTime),
+    });
+  });
+
+  next();
+};
+
+export default trackActivity;
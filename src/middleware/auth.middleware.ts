@@ -1,40 +1,144 @@
 import { Request, Response, NextFunction } from 'express';
-import { AuthService } from '../services/auth.service';
-import { AuthRepository } from '../repositories/auth.repository';
+import { getAuthService } from '../services/auth.service';
+import { getApiKeyService } from '../services/api-key.service';
+import { AuthSessionRecord, AuthUser } from '../config/auth.config';
+import { AuthenticationError, ForbiddenError } from '../models/error.types';
+import { IPrincipal } from '../models/auth.types';
+import { setRequestUser } from '../utils/request-context';
 
-const authRepository = new AuthRepository();
-const authService = new AuthService(authRepository);
+/**
+ * Response header carrying the session expiry after any sliding extension, so
+ * clients know when they will need to refresh
+ */
+export const SESSION_EXPIRES_HEADER = 'X-Session-Expires-At';
 
+/**
+ * Request header carrying an API key, accepted by requireAuth
+ */
+export const API_KEY_HEADER = 'X-API-Key';
+
+/**
+ * Request that has passed requireAuth, by session token or API key
+ */
 export interface AuthRequest extends Request {
-  user?: any;
-  session?: any;
+  user: AuthUser;
+  principal: IPrincipal;
+}
+
+/**
+ * Request that has passed requireSession
+ */
+export interface SessionRequest extends AuthRequest {
+  session: AuthSessionRecord;
+}
+
+/**
+ * Narrow a request to AuthRequest
+ * 
+ * Use in handlers registered after requireAuth to get a non-optional user and
+ * principal without casting.
+ * 
+ * @throws {AuthenticationError} If the request was not authenticated
+ */
+export function assertAuthenticated(req: Request): asserts req is AuthRequest {
+  if (!req.user || !req.principal) {
+    throw new AuthenticationError('Unauthorized: Authentication required', 'TOKEN_MISSING');
+  }
+}
+
+/**
+ * Narrow a request to SessionRequest
+ * 
+ * Use in handlers registered after requireSession that need the session itself.
+ * 
+ * @throws {AuthenticationError} If the request was not authenticated with a session token
+ */
+export function assertSession(req: Request): asserts req is SessionRequest {
+  if (!req.user || !req.principal || !req.session) {
+    throw new AuthenticationError('Unauthorized: Session required', 'TOKEN_MISSING');
+  }
+}
+
+async function authenticateSession(req: Request, res: Response): Promise<void> {
+  const authHeader = req.headers.authorization;
+
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    throw new AuthenticationError('Unauthorized: No token provided', 'TOKEN_MISSING');
+  }
+
+  const token = authHeader.substring(7);
+  const sessionData = await getAuthService().getSession(token);
+
+  if (!sessionData || !sessionData.session) {
+    throw new AuthenticationError('Unauthorized: Invalid or expired token', 'TOKEN_INVALID');
+  }
+
+  req.user = sessionData.user;
+  req.session = sessionData.session;
+  req.principal = { method: 'session', userId: sessionData.user.id, sessionId: sessionData.session.id };
+  res.setHeader(SESSION_EXPIRES_HEADER, new Date(sessionData.session.expiresAt).toISOString());
 }
 
+async function authenticateApiKey(req: Request, key: string): Promise<void> {
+  const { user, apiKeyId, authorization } = await getApiKeyService().authenticate(key);
+
+  req.user = user;
+  req.principal = { method: 'api_key', userId: user.id, apiKeyId };
+  // Pre-resolved so requirePermission checks the key's scopes, not the owner's roles
+  req.authorization = authorization;
+}
+
+/**
+ * Authenticate with a session bearer token or an X-API-Key header
+ * 
+ * Both populate req.user and req.principal, so handlers work the same either
+ * way. req.session is only set for session tokens.
+ * 
+ * An API key's scopes are only checked by requirePermission, so every route
+ * using this must also declare the permission it needs (requireRole rejects
+ * keys outright). Routes without one use requireSession.
+ */
 export const requireAuth = async (
-  req: AuthRequest,
+  req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
-    const authHeader = req.headers.authorization;
+    const apiKey = req.get(API_KEY_HEADER);
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      res.status(401).json({ error: 'Unauthorized: No token provided' });
-      return;
+    if (apiKey && !req.headers.authorization) {
+      await authenticateApiKey(req, apiKey);
+    } else {
+      await authenticateSession(req, res);
     }
 
-    const token = authHeader.substring(7);
-    const sessionData = await authService.getSession(token);
+    setRequestUser(req.user!.id);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
 
-    if (!sessionData || !sessionData.session) {
-      res.status(401).json({ error: 'Unauthorized: Invalid or expired token' });
-      return;
+/**
+ * Authenticate with a session bearer token only
+ * 
+ * For endpoints that manage the user's own credentials (sessions, 2FA, API
+ * keys), which an API key must not be able to reach.
+ */
+export const requireSession = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.headers.authorization && req.get(API_KEY_HEADER)) {
+      throw new ForbiddenError('API keys cannot be used for this endpoint', 'SESSION_REQUIRED');
     }
 
-    req.user = sessionData.user;
-    req.session = sessionData.session;
+    await authenticateSession(req, res);
+    setRequestUser(req.user!.id);
     next();
   } catch (error) {
-    res.status(401).json({ error: 'Unauthorized: Authentication failed' });
+    next(error);
   }
 };
@@ -0,0 +1,68 @@
+import { Request, Response, NextFunction } from 'express';
+import { getRoleService } from '../services/role.service';
+import { AuthenticationError, ForbiddenError } from '../models/error.types';
+import { IUserAuthorization } from '../models/rbac.types';
+
+/**
+ * Resolve the caller's roles and permissions, once per request
+ */
+async function loadAuthorization(req: Request): Promise<IUserAuthorization> {
+  if (!req.user) {
+    throw new AuthenticationError('Unauthorized: Authentication required', 'TOKEN_MISSING');
+  }
+
+  if (!req.authorization) {
+    req.authorization = await getRoleService().getUserAuthorization(req.user.id);
+  }
+
+  return req.authorization;
+}
+
+/**
+ * Allows the request if the user has at least one of the given roles
+ * 
+ * Must be registered after requireAuth.
+ * 
+ * @example
+ * router.get('/reports', requireAuth, requireRole('admin', 'analyst'), handler);
+ */
+export const requireRole = (...roles: string[]) => {
+  return async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const authorization = await loadAuthorization(req);
+
+      if (!roles.some((role) => authorization.roles.includes(role))) {
+        throw new ForbiddenError(`Forbidden: requires role ${roles.join(' or ')}`, 'INSUFFICIENT_ROLE');
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+/**
+ * Allows the request only if the user has every one of the given permissions
+ * 
+ * Must be registered after requireAuth.
+ * 
+ * @example
+ * router.post('/users/:userId/roles', requireAuth, requirePermission('roles:manage'), handler);
+ */
+export const requirePermission = (...permissions: string[]) => {
+  return async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const authorization = await loadAuthorization(req);
+      const missing = permissions.filter((permission) => !authorization.permissions.includes(permission));
+
+      if (missing.length > 0) {
+        throw new ForbiddenError(`Forbidden: missing permission ${missing.join(', ')}`, 'INSUFFICIENT_PERMISSION');
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
@@ -0,0 +1,32 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { AuthenticationError } from '../models/error.types';
+
+const digest = (value: string): Buffer => createHash('sha256').update(value).digest();
+
+/**
+ * Require HTTP basic auth with fixed credentials
+ * 
+ * For endpoints scraped by infrastructure (e.g. Prometheus) rather than called
+ * by users. Credentials are compared as digests in constant time.
+ * 
+ * @param username - Expected user name
+ * @param password - Expected password
+ * @param realm - Realm advertised in the WWW-Authenticate challenge
+ */
+export const requireBasicAuth = (username: string, password: string, realm: string) => {
+  const expected = digest(`${username}:${password}`);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const [scheme, encoded] = (req.headers.authorization ?? '').split(' ');
+    const credentials = scheme === 'Basic' && encoded ? Buffer.from(encoded, 'base64').toString('utf8') : '';
+
+    if (credentials && timingSafeEqual(digest(credentials), expected)) {
+      next();
+      return;
+    }
+
+    res.setHeader('WWW-Authenticate', `Basic realm="${realm}", charset="UTF-8"`);
+    next(new AuthenticationError('Invalid or missing credentials', 'INVALID_CREDENTIALS'));
+  };
+};
@@ -0,0 +1,132 @@
+import { Request, Response, NextFunction } from 'express';
+import logger from '../config/logger.config';
+import { config } from '../config/app.config';
+import { categorizeError } from '../config/database';
+import { DatabaseError } from '../models/database.types';
+import { getRequestContext } from '../utils/request-context';
+import { AppError, IErrorResponse, NotFoundError, RateLimitError } from '../models/error.types';
+
+// Node socket errors and PostgreSQL SQLSTATE codes that mean the database is unreachable
+const CONNECTION_ERROR_CODES = [
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  '57P01', // admin_shutdown
+  '57P03', // cannot_connect_now
+];
+
+interface HttpErrorLike {
+  code?: string;
+  status?: number;
+  statusCode?: number;
+  expose?: boolean;
+  type?: string;
+}
+
+function isConnectionError(err: Error): boolean {
+  const code = (err as HttpErrorLike).code;
+  return typeof code === 'string' && (CONNECTION_ERROR_CODES.includes(code) || code.startsWith('08'));
+}
+
+/**
+ * Converts any thrown value into an AppError
+ * 
+ * - AppError instances are returned unchanged
+ * - DatabaseError: temporary failures become 503, permanent failures 500
+ * - Raw pg/socket connection errors are categorized like DatabaseError
+ * - http-errors from Express/body-parser (e.g. malformed JSON) keep their 4xx status
+ * - Anything else is an unexpected 500
+ */
+function toAppError(err: unknown): AppError {
+  if (err instanceof AppError) {
+    return err;
+  }
+
+  if (err instanceof Error && isConnectionError(err)) {
+    return toAppError(categorizeError(err));
+  }
+
+  if (err instanceof DatabaseError) {
+    return err.category === 'temporary'
+      ? new AppError(err.message, 503, 'DEPENDENCY_UNAVAILABLE', { dependency: 'database' })
+      : new AppError(err.message, 500, err.code);
+  }
+
+  const httpError = err as HttpErrorLike;
+  const status = httpError?.status ?? httpError?.statusCode;
+  if (typeof status === 'number' && status >= 400 && status < 500 && httpError.expose) {
+    const message = err instanceof Error ? err.message : 'Bad request';
+    return new AppError(message, status, httpError.type === 'entity.parse.failed' ? 'MALFORMED_JSON' : 'BAD_REQUEST');
+  }
+
+  const message = err instanceof Error ? err.message : 'Internal server error';
+  return new AppError(message, 500, 'INTERNAL_ERROR');
+}
+
+/**
+ * Responds 404 for requests that matched no route
+ */
+export const notFoundHandler = (req: Request, _res: Response, next: NextFunction): void => {
+  next(new NotFoundError(`Route ${req.method} ${req.path} not found`, 'ROUTE_NOT_FOUND'));
+};
+
+/**
+ * Terminal error-handling middleware
+ * 
+ * Renders every error as `{ error: { code, message, details, requestId } }`. Server errors
+ * (5xx) are logged with their stack; in production their message and details are
+ * replaced with a generic text so internal information never reaches clients.
+ * Must be registered after all routes.
+ */
+export const errorHandler = (
+  err: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+
+  const appError = toAppError(err);
+  const isServerError = appError.statusCode >= 500;
+
+  if (isServerError) {
+    logger.error(
+      {
+        err,
+        code: appError.code,
+        method: req.method,
+        url: req.url,
+      },
+      'Request failed'
+    );
+  }
+
+  if (appError instanceof RateLimitError) {
+    res.setHeader('Retry-After', String(appError.retryAfter));
+  }
+
+  const hideInternals = !config.profile.exposeErrorDetails && isServerError;
+  const body: IErrorResponse = {
+    error: {
+      code: appError.code,
+      message: hideInternals
+        ? appError.statusCode === 503 ? 'Service temporarily unavailable' : 'Internal server error'
+        : appError.message,
+      requestId: getRequestContext()?.requestId,
+    },
+  };
+
+  if (appError.details !== undefined && !hideInternals) {
+    body.error.details = appError.details;
+  }
+
+  res.status(appError.statusCode).json(body);
+};
+
+export default errorHandler;
@@ -1,11 +1,22 @@
 import { Request, Response, NextFunction } from 'express';
 import logger from '../config/logger.config';
+import { httpRequestDuration } from '../utils/metrics';
+import { routePattern } from '../utils/route-pattern';
 
+/**
+ * Logs each finished request and records it in http_request_duration_seconds
+ */
 export const requestLogger = (req: Request, res: Response, next: NextFunction) => {
   const startTime = Date.now();
 
   res.on('finish', () => {
     const duration = Date.now() - startTime;
+
+    httpRequestDuration.observe(
+      { method: req.method, route: routePattern(req), status_code: res.statusCode },
+      duration / 1000
+    );
+
     const logData = {
       method: req.method,
       url: req.url,
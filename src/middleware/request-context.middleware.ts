@@ -0,0 +1,31 @@
+import { randomUUID } from 'node:crypto';
+import { Request, Response, NextFunction } from 'express';
+import { runWithRequestContext } from '../utils/request-context';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Accept caller-supplied ids only if they are short and log-safe
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Assigns a correlation id to each request
+ * 
+ * Reuses a valid incoming X-Request-Id header or generates a UUID, echoes it in
+ * the response and runs the rest of the chain inside an async request context so
+ * every log line emitted while handling the request carries the id. The client
+ * address and user agent are captured too, for the audit log.
+ * Must be registered before any other middleware that logs.
+ */
+export const requestContext = (req: Request, res: Response, next: NextFunction): void => {
+  const incomingId = req.get(REQUEST_ID_HEADER);
+  const requestId = incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : randomUUID();
+
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+
+  runWithRequestContext(
+    { requestId, ipAddress: req.ip, userAgent: req.get('user-agent') },
+    () => next()
+  );
+};
+
+export default requestContext;
@@ -0,0 +1,66 @@
+import { context, propagation, SpanKind, SpanStatusCode, trace } from '@opentelemetry/api';
+import {
+  ATTR_CLIENT_ADDRESS,
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_HTTP_ROUTE,
+  ATTR_URL_PATH,
+  ATTR_USER_AGENT_ORIGINAL,
+} from '@opentelemetry/semantic-conventions';
+import { Request, Response, NextFunction } from 'express';
+import { tracer } from '../utils/tracing';
+import { routePattern } from '../utils/route-pattern';
+
+/**
+ * Open a server span for each request
+ * 
+ * Continues the trace from an incoming `traceparent` header, if any, and runs
+ * the rest of the chain with the span active so service, better-auth and query
+ * spans become its children. The span is named after the route pattern once
+ * the response finishes. Must be registered first.
+ */
+export const traceRequest = (req: Request, res: Response, next: NextFunction): void => {
+  const parentContext = propagation.extract(context.active(), req.headers);
+  const span = tracer.startSpan(
+    req.method,
+    {
+      kind: SpanKind.SERVER,
+      attributes: {
+        [ATTR_HTTP_REQUEST_METHOD]: req.method,
+        [ATTR_URL_PATH]: req.path,
+        [ATTR_CLIENT_ADDRESS]: req.ip,
+        [ATTR_USER_AGENT_ORIGINAL]: req.get('user-agent'),
+      },
+    },
+    parentContext
+  );
+
+  let ended = false;
+  const end = () => {
+    if (ended) {
+      return;
+    }
+    ended = true;
+
+    const route = routePattern(req);
+
+    span.updateName(`${req.method} ${route}`);
+    span.setAttribute(ATTR_HTTP_ROUTE, route);
+    span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, res.statusCode);
+
+    // Per HTTP conventions only server errors fail a server span
+    if (res.statusCode >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+
+    span.end();
+  };
+
+  // 'close' without 'finish' means the client went away first
+  res.on('finish', end);
+  res.on('close', end);
+
+  context.with(trace.setSpan(parentContext, span), next);
+};
+
+export default traceRequest;
@@ -0,0 +1,50 @@
+import { Request, Response, NextFunction } from 'express';
+import { validateObject } from '../utils/validator';
+import { ValidationError } from '../models/error.types';
+import { IValidationErrorDetail, RequestLocation, RequestSchema } from '../models/validation.types';
+
+const LOCATIONS: RequestLocation[] = ['params', 'query', 'body'];
+
+/**
+ * Creates a middleware that validates the request against a schema
+ * 
+ * On success the sanitized body replaces `req.body`, and the sanitized values for
+ * every validated location are exposed on `res.locals.validated`. Express 5 makes
+ * `req.query` read-only, so coerced query values are only available there.
+ * On failure forwards a ValidationError (422) carrying the per-field error list.
+ * 
+ * @param schema - Schemas for body, query and/or params
+ * 
+ * @example
+ * router.post('/signup', validate({ body: signUpSchema }), handler);
+ */
+export const validate = (schema: RequestSchema) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const errors: IValidationErrorDetail[] = [];
+    const validated: Partial<Record<RequestLocation, unknown>> = {};
+
+    for (const location of LOCATIONS) {
+      const locationSchema = schema[location];
+      if (!locationSchema) {
+        continue;
+      }
+
+      const result = validateObject(locationSchema, req[location], location);
+      errors.push(...result.errors);
+      validated[location] = result.value;
+    }
+
+    if (errors.length > 0) {
+      next(new ValidationError('Validation failed', errors));
+      return;
+    }
+
+    if (validated.body) {
+      req.body = validated.body;
+    }
+    res.locals.validated = validated;
+    next();
+  };
+};
+
+export default validate;
@@ -0,0 +1,161 @@
+import express, { Request, Response, Router } from 'express';
+import { createHmac, randomBytes } from 'crypto';
+import logger from '../config/logger.config';
+
+const log = logger.child({ component: 'mock-oidc' });
+
+const CODE_TTL_MS = 60 * 1000;
+const TOKEN_TTL_SECONDS = 3600;
+
+export interface MockOidcIssuerOptions {
+  /** Absolute URL the issuer is served at, e.g. http://localhost:3000/mock-oidc */
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  /** Email signed in when the authorize request carries no login_hint */
+  defaultEmail: string;
+}
+
+interface MockIdentity {
+  sub: string;
+  email: string;
+  email_verified: true;
+  name: string;
+}
+
+interface PendingCode {
+  identity: MockIdentity;
+  redirectUri: string;
+  expiresAt: number;
+}
+
+const base64url = (value: string | Buffer): string => Buffer.from(value).toString('base64url');
+
+/**
+ * Identities are derived from the email so the same address always maps to
+ * the same subject
+ */
+const identityFor = (email: string): MockIdentity => ({
+  sub: `mock|${createHmac('sha256', 'mock-oidc').update(email).digest('hex').slice(0, 24)}`,
+  email,
+  email_verified: true,
+  name: email.split('@')[0],
+});
+
+/**
+ * Minimal in-process OpenID Connect issuer for development and integration tests
+ * 
+ * Implements discovery, an authorize endpoint that approves immediately, the
+ * authorization code grant and userinfo, so the full social login flow runs
+ * without network access. Choose the signed-in identity by adding
+ * `login_hint=<email>` to the authorize URL. ID tokens are HS256-signed with the
+ * client secret. Never enable this in production: anyone can sign in as anyone.
+ */
+export function createMockOidcIssuer(options: MockOidcIssuerOptions): Router {
+  const router = Router();
+  const codes = new Map<string, PendingCode>();
+  const accessTokens = new Map<string, MockIdentity>();
+
+  const signIdToken = (identity: MockIdentity): string => {
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+    const payload = base64url(JSON.stringify({
+      ...identity,
+      iss: options.issuer,
+      aud: options.clientId,
+      iat: now,
+      exp: now + TOKEN_TTL_SECONDS,
+    }));
+    const signature = createHmac('sha256', options.clientSecret).update(`${header}.${payload}`).digest('base64url');
+
+    return `${header}.${payload}.${signature}`;
+  };
+
+  const oauthError = (res: Response, status: number, error: string, description: string): void => {
+    res.status(status).json({ error, error_description: description });
+  };
+
+  router.get('/.well-known/openid-configuration', (_req: Request, res: Response) => {
+    res.json({
+      issuer: options.issuer,
+      authorization_endpoint: `${options.issuer}/authorize`,
+      token_endpoint: `${options.issuer}/token`,
+      userinfo_endpoint: `${options.issuer}/userinfo`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['HS256'],
+      scopes_supported: ['openid', 'email', 'profile'],
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+    });
+  });
+
+  router.get('/authorize', (req: Request, res: Response) => {
+    const { client_id: clientId, redirect_uri: redirectUri, state, login_hint: loginHint } = req.query;
+
+    if (clientId !== options.clientId) {
+      return oauthError(res, 400, 'unauthorized_client', 'Unknown client_id');
+    }
+    if (typeof redirectUri !== 'string' || !redirectUri) {
+      return oauthError(res, 400, 'invalid_request', 'redirect_uri is required');
+    }
+
+    const email = typeof loginHint === 'string' && loginHint ? loginHint.toLowerCase() : options.defaultEmail;
+    const code = randomBytes(16).toString('hex');
+    codes.set(code, { identity: identityFor(email), redirectUri, expiresAt: Date.now() + CODE_TTL_MS });
+
+    const location = new URL(redirectUri);
+    location.searchParams.set('code', code);
+    if (typeof state === 'string') {
+      location.searchParams.set('state', state);
+    }
+
+    log.debug({ email }, 'Mock OIDC authorization approved');
+    res.redirect(302, location.toString());
+  });
+
+  router.post('/token', express.urlencoded({ extended: false }), (req: Request, res: Response) => {
+    const [basicId, basicSecret] = req.headers.authorization?.startsWith('Basic ')
+      ? Buffer.from(req.headers.authorization.slice(6), 'base64').toString().split(':').map(decodeURIComponent)
+      : [];
+    const clientId = basicId ?? req.body.client_id;
+    const clientSecret = basicSecret ?? req.body.client_secret;
+
+    if (clientId !== options.clientId || clientSecret !== options.clientSecret) {
+      return oauthError(res, 401, 'invalid_client', 'Client authentication failed');
+    }
+    if (req.body.grant_type !== 'authorization_code') {
+      return oauthError(res, 400, 'unsupported_grant_type', 'Only authorization_code is supported');
+    }
+
+    const pending = codes.get(req.body.code);
+    codes.delete(req.body.code);
+
+    if (!pending || pending.expiresAt < Date.now() || pending.redirectUri !== req.body.redirect_uri) {
+      return oauthError(res, 400, 'invalid_grant', 'Authorization code is invalid or expired');
+    }
+
+    const accessToken = randomBytes(24).toString('hex');
+    accessTokens.set(accessToken, pending.identity);
+
+    res.json({
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: TOKEN_TTL_SECONDS,
+      scope: 'openid email profile',
+      id_token: signIdToken(pending.identity),
+    });
+  });
+
+  router.get('/userinfo', (req: Request, res: Response) => {
+    const token = req.headers.authorization?.replace(/^Bearer /, '') ?? '';
+    const identity = accessTokens.get(token);
+
+    if (!identity) {
+      return oauthError(res, 401, 'invalid_token', 'Access token is invalid');
+    }
+
+    res.json(identity);
+  });
+
+  return router;
+}
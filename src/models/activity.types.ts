@@ -0,0 +1,85 @@
+import type { AuthMethod } from './auth.types';
+
+/**
+ * One authenticated request, as stored in the user_activity collection
+ */
+export interface IActivityEvent {
+  userId: string;
+  method: string;
+  /** Matched route pattern, e.g. `/api/users/:userId/roles`, so ids do not split aggregates */
+  route: string;
+  statusCode: number;
+  durationMs: number;
+  authMethod: AuthMethod;
+  ipAddress: string | null;
+  userAgent: string | null;
+  requestId: string | null;
+  occurredAt: Date;
+}
+
+export interface IRequestsPerDay {
+  /** UTC day, `YYYY-MM-DD` */
+  date: string;
+  count: number;
+}
+
+export interface IRouteCount {
+  method: string;
+  route: string;
+  count: number;
+}
+
+/**
+ * Activity data store
+ */
+export interface IActivityRepository {
+  insertMany(events: IActivityEvent[]): Promise<void>;
+
+  /**
+   * The user's most recent events, newest first
+   */
+  findRecent(userId: string, limit: number): Promise<IActivityEvent[]>;
+
+  /**
+   * Requests per UTC day since the given time, oldest day first
+   */
+  countByDay(userId: string, since: Date): Promise<IRequestsPerDay[]>;
+
+  /**
+   * Most requested routes since the given time
+   */
+  topRoutes(userId: string, since: Date, limit: number): Promise<IRouteCount[]>;
+}
+
+/**
+ * Query string of the activity endpoints
+ */
+export interface IActivityQuery {
+  /** Days covered by the aggregates */
+  days?: number;
+  /** Number of recent events returned */
+  limit?: number;
+}
+
+export interface IActivityParams {
+  userId: string;
+}
+
+export interface IActivitySummary {
+  userId: string;
+  /** Start of the aggregation window */
+  since: Date;
+  recent: IActivityEvent[];
+  requestsPerDay: IRequestsPerDay[];
+  topRoutes: IRouteCount[];
+}
+
+export interface ActivityConfig {
+  /** Off when ACTIVITY_TRACKING_ENABLED=false or MONGODB_URI is not set */
+  enabled: boolean;
+  /** Events expire this many days after they occurred (TTL index) */
+  retentionDays: number;
+  batchSize: number;
+  flushIntervalMs: number;
+  maxQueueSize: number;
+}
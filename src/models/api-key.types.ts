@@ -0,0 +1,46 @@
+import type { AuthUser } from '../config/auth.config';
+import { IUserAuthorization } from './rbac.types';
+
+/**
+ * API key as shown to its owner; the secret part is never returned after creation
+ */
+export interface IApiKeyDto {
+  id: string;
+  name: string;
+  /** Identifies the key, e.g. `ak_1a2b3c4d` */
+  prefix: string;
+  scopes: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface ICreateApiKeyRequest {
+  name: string;
+  /** Permission names; each must be held by the creating user */
+  scopes: string[];
+  /** Omit for a key that does not expire */
+  expiresInDays?: number;
+}
+
+/**
+ * Returned once when a key is created
+ */
+export interface ICreateApiKeyResponse {
+  apiKey: IApiKeyDto;
+  key: string;
+}
+
+export interface IApiKeyParams {
+  id: string;
+}
+
+/**
+ * Result of authenticating a request by API key
+ */
+export interface IApiKeyAuthentication {
+  user: AuthUser;
+  apiKeyId: string;
+  /** Scopes of the key that the owner still holds */
+  authorization: IUserAuthorization;
+}
@@ -0,0 +1,131 @@
+/**
+ * Security-relevant event types, formatted `<area>.<action>`
+ */
+export const AUDIT_EVENTS = {
+  SIGN_UP: 'auth.sign_up',
+  SIGN_IN: 'auth.sign_in',
+  SIGN_OUT: 'auth.sign_out',
+  OAUTH_SIGN_IN: 'auth.oauth_sign_in',
+  TWO_FACTOR_CHALLENGE: 'auth.two_factor_challenge',
+  TWO_FACTOR_VERIFY: 'auth.two_factor_verify',
+  SESSION_REFRESH: 'session.refresh',
+  SESSION_REVOKE: 'session.revoke',
+  SESSIONS_REVOKE_OTHERS: 'session.revoke_others',
+  PASSWORD_RESET_REQUEST: 'password.reset_request',
+  PASSWORD_RESET: 'password.reset',
+  EMAIL_VERIFICATION_REQUEST: 'email.verification_request',
+  EMAIL_VERIFY: 'email.verify',
+  TWO_FACTOR_ENABLE: 'two_factor.enable',
+  TWO_FACTOR_DISABLE: 'two_factor.disable',
+  API_KEY_CREATE: 'api_key.create',
+  API_KEY_REVOKE: 'api_key.revoke',
+  ROLE_GRANT: 'role.grant',
+  ROLE_REVOKE: 'role.revoke',
+} as const;
+
+export type AuditEventType = typeof AUDIT_EVENTS[keyof typeof AUDIT_EVENTS];
+
+export const AUDIT_OUTCOMES = ['success', 'failure'] as const;
+
+export type AuditOutcome = typeof AUDIT_OUTCOMES[number];
+
+/**
+ * What a caller reports; the request context supplies the rest
+ */
+export interface IAuditEventInput {
+  type: AuditEventType;
+  outcome: AuditOutcome;
+  /** User performing the action; defaults to the authenticated user of the request */
+  actorId?: string | null;
+  /** User or resource the action applies to, when it differs from the actor */
+  targetId?: string | null;
+  /** Event-specific details; never include secrets or tokens */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * A recorded audit event
+ */
+export interface IAuditEvent {
+  id: string;
+  type: AuditEventType;
+  outcome: AuditOutcome;
+  actorId: string | null;
+  targetId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  requestId: string | null;
+  metadata: Record<string, unknown>;
+  occurredAt: Date;
+}
+
+/**
+ * Filters for querying the audit log; all are optional and combined with AND
+ */
+export interface IAuditFilter {
+  type?: AuditEventType;
+  outcome?: AuditOutcome;
+  actorId?: string;
+  targetId?: string;
+  /** Inclusive lower bound on occurredAt */
+  from?: Date;
+  /** Exclusive upper bound on occurredAt */
+  to?: Date;
+}
+
+export interface IAuditQueryResult {
+  events: IAuditEvent[];
+  total: number;
+}
+
+/**
+ * Append-only audit store
+ * 
+ * Implementations must not offer any way to change or remove events.
+ */
+export interface IAuditRepository {
+  /**
+   * Append a batch of events
+   */
+  append(events: IAuditEvent[]): Promise<void>;
+
+  /**
+   * Events matching the filter, newest first
+   */
+  find(filter: IAuditFilter, limit: number, offset: number): Promise<IAuditQueryResult>;
+}
+
+/**
+ * Query string of GET /api/admin/audit
+ */
+export interface IAuditQuery {
+  type?: AuditEventType;
+  outcome?: AuditOutcome;
+  actorId?: string;
+  targetId?: string;
+  /** ISO 8601 timestamp */
+  from?: string;
+  /** ISO 8601 timestamp */
+  to?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface IAuditPage {
+  events: IAuditEvent[];
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+export type AuditStore = 'postgres' | 'mongo';
+
+export interface AuditConfig {
+  store: AuditStore;
+  /** Events are written once this many are queued... */
+  batchSize: number;
+  /** ...or this long after the first one was queued */
+  flushIntervalMs: number;
+  /** Upper bound on queued events while the store is unavailable; the oldest are dropped beyond it */
+  maxQueueSize: number;
+}
@@ -9,16 +9,97 @@ export interface ISignInRequest {
   password: string;
 }
 
+/**
+ * How the caller of a request authenticated
+ */
+export type AuthMethod = 'session' | 'api_key';
+
+/**
+ * The authenticated caller, set by requireAuth for either credential type
+ */
+export interface IPrincipal {
+  method: AuthMethod;
+  userId: string;
+  /** Set when method is 'session' */
+  sessionId?: string;
+  /** Set when method is 'api_key' */
+  apiKeyId?: string;
+}
+
+export interface IForgotPasswordRequest {
+  email: string;
+}
+
+export interface IResetPasswordRequest {
+  token: string;
+  newPassword: string;
+}
+
+export interface ISendVerificationRequest {
+  email: string;
+}
+
+export interface IVerifyEmailRequest {
+  token: string;
+}
+
+export interface IAuthUserDto {
+  id: string;
+  email: string;
+  name: string;
+  emailVerified: boolean;
+  image: string | null;
+}
+
+export interface IAuthSessionDto {
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * Session details safe to return to the client (no token)
+ */
+export interface ISessionInfoDto {
+  id: string;
+  expiresAt: Date;
+  createdAt: Date;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+/**
+ * One of the caller's signed-in devices, as listed by GET /api/auth/sessions
+ */
+export interface IActiveSessionDto extends ISessionInfoDto {
+  /** Last time better-auth refreshed the session on use */
+  lastSeenAt: Date;
+  /** true for the session making the request */
+  current: boolean;
+}
+
+export interface ISessionParams {
+  id: string;
+}
+
+export interface IRevokeSessionsResponse {
+  revoked: number;
+}
+
 export interface IAuthResponse {
-  user: {
-    id: string;
-    email: string;
-    name?: string;
-  };
-  session: {
-    token: string;
-    expiresAt: Date;
-  };
+  user: IAuthUserDto;
+  /** null when better-auth did not open a session, e.g. sign-up pending verification */
+  session: IAuthSessionDto | null;
+  /** Rotating token for POST /api/auth/refresh; null whenever session is null */
+  refreshToken: IAuthSessionDto | null;
+}
+
+export interface IRefreshRequest {
+  refreshToken: string;
+}
+
+export interface IProfileResponse {
+  user: IAuthUserDto;
+  session: ISessionInfoDto;
 }
 
 export interface IUser {
@@ -0,0 +1,101 @@
+import { ActivityConfig } from './activity.types';
+import { AuditConfig } from './audit.types';
+import { DatabaseConfig } from './database.types';
+import { MailConfig } from './mail.types';
+import { MetricsConfig } from './metrics.types';
+import { MigrationConfig } from './migration.types';
+import { MongoConfig } from './mongodb.types';
+import { OAuthConfig } from './oauth.types';
+import { RateLimitConfig } from './rate-limit.types';
+import { SessionConfig } from './session.types';
+import { TracingConfig } from './tracing.types';
+import { TwoFactorConfig } from './two-factor.types';
+
+/** Deployment environment, from NODE_ENV */
+export type AppEnvironment = 'development' | 'test' | 'production';
+
+export type LogLevel = 'fatal' | 'error' | 'warn' | 'info' | 'debug' | 'trace' | 'silent';
+
+/**
+ * Defaults and safety rules that differ between environments
+ */
+export interface EnvironmentProfile {
+  /** Refuse to start on malformed values and insecure defaults instead of warning */
+  strict: boolean;
+  /** Log level when LOG_LEVEL is unset */
+  logLevel: LogLevel;
+  /** Human-readable log output instead of JSON lines */
+  prettyLogs: boolean;
+  /** Include internal error messages in 5xx responses */
+  exposeErrorDetails: boolean;
+  /** Whether MOCK_OIDC_ENABLED is honoured */
+  allowMockIssuer: boolean;
+}
+
+export interface ServerConfig {
+  port: number;
+  /** Reverse proxies in front of the app whose X-Forwarded-For entries are trusted */
+  trustProxyHops: number;
+}
+
+export interface LoggingConfig {
+  level: LogLevel;
+  pretty: boolean;
+}
+
+export interface AuthConfig {
+  /** Signs sessions and tokens; must be long and random in production */
+  secret: string;
+  /** Public API base URL for callbacks and links in emails, without a trailing slash */
+  baseUrl: string;
+}
+
+/**
+ * Application configuration, parsed and validated once at boot
+ */
+export interface AppConfig {
+  environment: AppEnvironment;
+  profile: EnvironmentProfile;
+  server: ServerConfig;
+  logging: LoggingConfig;
+  auth: AuthConfig;
+  database: DatabaseConfig;
+  mongodb: MongoConfig;
+  migrations: MigrationConfig;
+  session: SessionConfig;
+  mail: MailConfig;
+  oauth: OAuthConfig;
+  twoFactor: TwoFactorConfig;
+  rateLimit: RateLimitConfig;
+  audit: AuditConfig;
+  activity: ActivityConfig;
+  metrics: MetricsConfig;
+  tracing: TracingConfig;
+}
+
+/**
+ * Result of loadConfig
+ */
+export interface LoadedConfig {
+  config: AppConfig;
+  /** Problems tolerated because the profile is not strict */
+  warnings: string[];
+}
+
+/**
+ * Thrown at boot when the environment cannot produce a safe configuration
+ */
+export class ConfigError extends Error {
+  /** One entry per offending variable */
+  public readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid configuration:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.problems = problems;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, ConfigError);
+    }
+  }
+}
@@ -1,6 +1,9 @@
 import { Pool } from 'pg';
-import { NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { ExtractTablesWithRelations } from 'drizzle-orm';
+import { NodePgDatabase, NodePgTransaction } from 'drizzle-orm/node-postgres';
+import { PgTransactionConfig } from 'drizzle-orm/pg-core';
 import * as schema from '../db/schema';
+import { ISchemaHealthResult } from './migration.types';
 
 /**
  * Drizzle client type for database operations
@@ -12,6 +15,32 @@ import * as schema from '../db/schema';
  */
 export type DrizzleClient = NodePgDatabase<typeof schema>;
 
+/**
+ * Drizzle client bound to an open transaction or savepoint
+ * 
+ * Has the same query API as DrizzleClient; `tx.transaction()` opens a savepoint.
+ */
+export type DrizzleTransaction = NodePgTransaction<typeof schema, ExtractTablesWithRelations<typeof schema>>;
+
+/**
+ * Anything repositories can run queries on
+ */
+export type DrizzleExecutor = DrizzleClient | DrizzleTransaction;
+
+/**
+ * Options for UnitOfWork.run
+ */
+export interface TransactionOptions extends PgTransactionConfig {
+  /**
+   * Open a savepoint in this transaction instead of a new transaction. Retries
+   * are left to the outermost run, since a serialization failure or deadlock
+   * aborts the whole transaction.
+   */
+  parent?: DrizzleTransaction;
+  /** Reruns after a serialization failure or deadlock (default: 3) */
+  maxRetries?: number;
+}
+
 /**
  * Result of a connection attempt
  */
@@ -30,7 +59,32 @@ export interface ConnectionStatus {
   lastConnectedAt?: Date;
   lastError?: string;
   retryCount: number;
+  reconnecting: boolean;
   databaseUrl: string; // Sanitized (no credentials)
+  /** Present only when DATABASE_REPLICA_URLS is set */
+  replicas?: ReplicaStatus[];
+}
+
+/**
+ * Current status of a read replica connection
+ */
+export interface ReplicaStatus {
+  connected: boolean;
+  lastConnectedAt?: Date;
+  lastError?: string;
+  retryCount: number;
+  reconnecting: boolean;
+  databaseUrl: string; // Sanitized (no credentials)
+}
+
+/**
+ * Snapshot of the node-postgres pool utilisation
+ */
+export interface PoolStats {
+  total: number;
+  idle: number;
+  waiting: number;
+  max: number;
 }
 
 /**
@@ -57,14 +111,29 @@ export interface ConnectionState {
 }
 
 /**
- * Database configuration from environment variables
+ * Internal state of a read replica, tracked the same way as the primary
+ */
+export interface ReplicaState extends ConnectionState {
+  /** Connection string from DATABASE_REPLICA_URLS */
+  url: string;
+}
+
+/**
+ * PostgreSQL connection configuration, shared by the primary and replicas
  */
 export interface DatabaseConfig {
-  DATABASE_URL: string;
-  DB_CONNECTION_TIMEOUT?: number; // Default: 10000ms
-  DB_MAX_RETRIES?: number;        // Default: 5
-  DB_RETRY_BASE_DELAY?: number;   // Default: 1000ms
-  DB_POOL_SIZE?: number;          // Default: 10
+  /** Primary connection string; empty when DATABASE_URL is unset outside production */
+  url: string;
+  /** Read replica connection strings; empty to read from the primary */
+  replicaUrls: string[];
+  /** Maximum connections per pool */
+  poolSize: number;
+  /** Time allowed to open a connection, in ms */
+  connectionTimeoutMs: number;
+  /** Connection attempts at startup before giving up */
+  maxRetries: number;
+  /** First retry delay in ms, doubled on every further attempt */
+  retryBaseDelayMs: number;
 }
 
 /**
@@ -80,9 +149,30 @@ export interface ValidationResult {
  */
 export interface DatabaseHealthResult {
   connected: boolean;
+  reconnecting?: boolean;
   responseTime?: number;
   error?: string;
   lastConnectedAt?: Date;
+  pool?: PoolStats;
+  /** Present only when DATABASE_REPLICA_URLS is set */
+  replicas?: ReplicaStatus[];
+}
+
+/**
+ * better-auth readiness; it runs on the primary pool, so it is ready only once that is connected
+ */
+export interface AuthHealthResult {
+  ready: boolean;
+  error?: string;
+}
+
+/**
+ * Liveness probe result - reports only that the process is responsive
+ */
+export interface LivenessResult {
+  status: 'ok';
+  uptime: number;
+  timestamp: Date;
 }
 
 /**
@@ -91,6 +181,11 @@ export interface DatabaseHealthResult {
 export interface SystemHealthResult {
   status: 'healthy' | 'degraded' | 'unhealthy';
   database: DatabaseHealthResult;
+  /** Present only when MONGODB_URI is configured */
+  mongodb?: DatabaseHealthResult;
+  /** Whether every migration has been applied */
+  migrations: ISchemaHealthResult;
+  auth: AuthHealthResult;
   timestamp: Date;
 }
 
@@ -118,6 +213,46 @@ export interface IConnectionManager {
    * @returns Drizzle client if connected, null otherwise
    */
   getDbClient(): DrizzleClient | null;
+
+  /**
+   * Get a client for reads that tolerate replication lag
+   * 
+   * Returns a healthy read replica, round-robin, or the primary when no
+   * replica is configured or healthy. Once the current request has written,
+   * its reads go to the primary so they see their own writes.
+   * 
+   * @returns Drizzle client if initialized, null otherwise
+   */
+  getReadClient(): DrizzleClient | null;
+
+  /**
+   * Get the primary client for writes and reads that must be current
+   * 
+   * Pins the rest of the current request to the primary.
+   * 
+   * @returns Drizzle client if initialized, null otherwise
+   */
+  getWriteClient(): DrizzleClient | null;
+
+  /**
+   * Get the primary client for reads that must be current
+   * 
+   * Does not pin the request, so its other reads still use the replicas.
+   * 
+   * @returns Drizzle client if initialized, null otherwise
+   */
+  getPrimaryReadClient(): DrizzleClient | null;
+
+  /**
+   * Get the underlying node-postgres pool
+   * 
+   * For work that needs a dedicated connection, such as holding a
+   * session-level advisory lock, and for better-auth, which runs its own
+   * queries on the pool. Prefer getDbClient() for queries.
+   * 
+   * @returns Pool if initialized, null otherwise
+   */
+  getPool(): Pool | null;
   
   /**
    * Check if database is currently connected
@@ -132,6 +267,24 @@ export interface IConnectionManager {
    * @returns Current connection status including timestamps and error details
    */
   getConnectionStatus(): ConnectionStatus;
+
+  /**
+   * Execute a timed 'SELECT 1' on a connection of its own, outside the pool
+   * 
+   * A failed probe marks the connection as lost and starts the background
+   * reconnection timer.
+   * 
+   * @param timeoutMs - Maximum time to wait for the probe query
+   * @returns Promise resolving to the probe result including response time
+   */
+  ping(timeoutMs: number): Promise<DatabaseHealthResult>;
+
+  /**
+   * Get current pool utilisation
+   * 
+   * @returns Pool statistics, or null if the pool has not been created
+   */
+  getPoolStats(): PoolStats | null;
   
   /**
    * Disconnect from database gracefully with timeout
@@ -0,0 +1,122 @@
+import { IValidationErrorDetail } from './validation.types';
+
+/**
+ * JSON envelope returned for every error response
+ */
+export interface IErrorResponse {
+  error: {
+    code: string;
+    message: string;
+    details?: unknown;
+    requestId?: string;
+  };
+}
+
+/**
+ * Base class for all application errors
+ * 
+ * Carries the HTTP status to respond with and a stable machine-readable code
+ * that clients can rely on independently of the human-readable message.
+ */
+export class AppError extends Error {
+  public readonly statusCode: number;
+  public readonly code: string;
+  public readonly details?: unknown;
+
+  constructor(message: string, statusCode: number, code: string, details?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    this.details = details;
+
+    // Maintains proper stack trace for where our error was thrown (only available on V8)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, new.target);
+    }
+  }
+}
+
+/**
+ * Request input failed validation (422)
+ */
+export class ValidationError extends AppError {
+  constructor(message = 'Validation failed', details: IValidationErrorDetail[] = []) {
+    super(message, 422, 'VALIDATION_FAILED', details);
+  }
+}
+
+/**
+ * Missing, invalid or expired credentials (401)
+ */
+export class AuthenticationError extends AppError {
+  constructor(message = 'Unauthorized', code = 'UNAUTHORIZED') {
+    super(message, 401, code);
+  }
+}
+
+/**
+ * A wrong authenticator or recovery code (400), from a signed-in user or
+ * against a sign-in challenge
+ * 
+ * Not an AuthenticationError: the session or challenge is still valid, so the
+ * client must not treat the response as a sign-out and may ask for the code
+ * again.
+ */
+export class InvalidTwoFactorCodeError extends AppError {
+  constructor(message = 'Invalid two-factor code') {
+    super(message, 400, 'INVALID_TWO_FACTOR_CODE');
+  }
+}
+
+/**
+ * Authenticated caller lacks the required role or permission (403)
+ */
+export class ForbiddenError extends AppError {
+  constructor(message = 'Forbidden', code = 'FORBIDDEN') {
+    super(message, 403, code);
+  }
+}
+
+/**
+ * Request conflicts with the current state of a resource (409)
+ */
+export class ConflictError extends AppError {
+  constructor(message: string, code = 'CONFLICT') {
+    super(message, 409, code);
+  }
+}
+
+/**
+ * Requested resource does not exist (404)
+ */
+export class NotFoundError extends AppError {
+  constructor(message = 'Resource not found', code = 'NOT_FOUND') {
+    super(message, 404, code);
+  }
+}
+
+/**
+ * Too many requests from the caller (429)
+ */
+export class RateLimitError extends AppError {
+  /** Seconds the client should wait before retrying */
+  public readonly retryAfter: number;
+
+  constructor(retryAfter: number, message = 'Too many requests, please try again later', code = 'RATE_LIMITED') {
+    super(message, 429, code, { retryAfter });
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * A downstream dependency (database, auth provider, ...) is unavailable (503)
+ */
+export class ServiceUnavailableError extends AppError {
+  public readonly dependency: string;
+
+  constructor(dependency: string, message = 'Service temporarily unavailable') {
+    super(message, 503, 'DEPENDENCY_UNAVAILABLE', { dependency });
+    this.dependency = dependency;
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * An outgoing email
+ */
+export interface IMailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Delivery mechanism for outgoing email
+ */
+export interface IMailTransport {
+  readonly name: string;
+  send(message: IMailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Mail delivery and account email flow configuration
+ */
+export interface MailConfig {
+  transport: 'console' | 'file' | 'smtp';
+  from: string;
+  fileDirectory: string;
+  smtp: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    password?: string;
+  };
+  /** Frontend base URL used in password reset links */
+  appUrl: string;
+  /** Public API base URL used in email verification links */
+  apiUrl: string;
+  passwordResetTokenTtl: number;      // seconds
+  emailVerificationTokenTtl: number;  // seconds
+  requireEmailVerification: boolean;
+}
@@ -0,0 +1,13 @@
+export interface MetricsConfig {
+  /** Serve GET /metrics; on unless METRICS_ENABLED=false */
+  enabled: boolean;
+  /** Basic auth credentials for /metrics; open when either is unset */
+  username: string | null;
+  password: string | null;
+}
+
+/** Which database a connection metric refers to */
+export type MetricsDatabase = 'postgres' | 'mongodb';
+
+/** Primary or read replica; MongoDB connections are always 'primary' */
+export type MetricsDatabaseRole = 'primary' | 'replica';
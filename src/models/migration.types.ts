@@ -0,0 +1,43 @@
+/**
+ * A migration listed in drizzle/meta/_journal.json
+ */
+export interface IMigrationInfo {
+  /** File name without extension, e.g. `0008_audit_events` */
+  tag: string;
+  /** Journal timestamp; drizzle orders and tracks migrations by it */
+  createdAt: number;
+  /** sha256 of the SQL file, as recorded by drizzle */
+  hash: string;
+}
+
+export interface IMigrationStatus {
+  applied: IMigrationInfo[];
+  pending: IMigrationInfo[];
+  upToDate: boolean;
+}
+
+/**
+ * Outcome of applying or baselining migrations
+ */
+export interface IMigrationRunResult {
+  /** Migrations applied (or marked as applied) by this run */
+  migrated: IMigrationInfo[];
+}
+
+/**
+ * Schema state reported by readiness checks
+ */
+export interface ISchemaHealthResult {
+  upToDate: boolean;
+  pending: number;
+  error?: string;
+}
+
+export interface MigrationConfig {
+  /** Directory with the SQL files and meta/_journal.json */
+  migrationsFolder: string;
+  /** Apply pending migrations during startup */
+  runOnStartup: boolean;
+  /** How long to wait for another instance holding the migration lock */
+  lockTimeoutMs: number;
+}
@@ -0,0 +1,96 @@
+import { Db, MongoClient } from 'mongodb';
+import { ConnectionResult, ConnectionStatus, DatabaseHealthResult } from './database.types';
+
+/**
+ * MongoDB connection configuration
+ */
+export interface MongoConfig {
+  /** Connection string; null when MongoDB is not used */
+  uri: string | null;
+  /** Maximum connections in the driver's pool */
+  poolSize: number;
+  /** Server selection timeout in ms */
+  connectionTimeoutMs: number;
+  /** Connection attempts at startup before giving up */
+  maxRetries: number;
+  /** First retry delay in ms, doubled on every further attempt */
+  retryBaseDelayMs: number;
+}
+
+/**
+ * Internal state maintained by the MongoDB connection manager
+ */
+export interface MongoConnectionState {
+  /** Driver client; owns the connection pool */
+  client: MongoClient | null;
+  /** Database named in MONGODB_URI */
+  db: Db | null;
+  /** Whether MongoDB is currently connected */
+  connected: boolean;
+  /** Timestamp of last successful connection */
+  lastConnectedAt: Date | null;
+  /** Last error encountered during connection attempts */
+  lastError: Error | null;
+  /** Number of retry attempts made */
+  retryCount: number;
+  /** Timer for automatic reconnection attempts */
+  reconnectTimer: NodeJS.Timeout | null;
+}
+
+/**
+ * MongoDB connection manager interface
+ * 
+ * Same lifecycle as IConnectionManager: retrying initialization, status
+ * reporting, health probes, background reconnection and graceful shutdown.
+ * MongoDB is optional, so callers check isConfigured() before initializing.
+ */
+export interface IMongoConnectionManager {
+  /**
+   * Whether MONGODB_URI is set
+   */
+  isConfigured(): boolean;
+
+  /**
+   * Connect with exponential backoff retry logic, validated with a ping
+   * 
+   * @returns Promise resolving to connection result with success status and details
+   */
+  initializeConnection(): Promise<ConnectionResult>;
+
+  /**
+   * Get the database named in MONGODB_URI
+   * 
+   * @returns Db handle once initialized, null otherwise
+   */
+  getDb(): Db | null;
+
+  /**
+   * Check if MongoDB is currently connected
+   */
+  isConnected(): boolean;
+
+  /**
+   * Get detailed connection status information
+   */
+  getConnectionStatus(): ConnectionStatus;
+
+  /**
+   * Execute a timed `ping` command
+   * 
+   * A failed probe marks the connection as lost and starts the background
+   * reconnection timer.
+   * 
+   * @param timeoutMs - Maximum time to wait for the ping
+   */
+  ping(timeoutMs: number): Promise<DatabaseHealthResult>;
+
+  /**
+   * Close the client gracefully with timeout
+   */
+  disconnect(): Promise<void>;
+
+  /**
+   * Attempt to reconnect, with fewer retries than initialization
+   */
+  reconnect(): Promise<ConnectionResult>;
+}
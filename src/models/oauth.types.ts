@@ -0,0 +1,64 @@
+export interface OAuthClientCredentials {
+  clientId: string;
+  clientSecret: string;
+}
+
+/**
+ * An OpenID Connect provider configured through its discovery document
+ */
+export interface OidcProviderConfig extends OAuthClientCredentials {
+  providerId: string;
+  discoveryUrl: string;
+  scopes: string[];
+}
+
+/**
+ * Social login configuration; providers without credentials are disabled
+ */
+export interface OAuthConfig {
+  /** Public API base URL that providers redirect back to */
+  apiUrl: string;
+  google?: OAuthClientCredentials;
+  github?: OAuthClientCredentials;
+  oidc?: OidcProviderConfig;
+  /** In-process OIDC issuer for offline development and integration tests */
+  mockIssuer: {
+    enabled: boolean;
+    clientId: string;
+    clientSecret: string;
+    /** Identity signed in when the authorize request has no login_hint */
+    defaultEmail: string;
+  };
+  /** Enabled providers, in the order they are offered to clients */
+  providers: IOAuthProvider[];
+  /**
+   * Providers whose verified email may be linked to an existing account with
+   * the same email
+   */
+  trustedProviders: string[];
+}
+
+/**
+ * How a provider's flow is started in better-auth: built-in social providers
+ * and generic OAuth/OIDC providers have separate endpoints
+ */
+export type OAuthProviderKind = 'social' | 'generic';
+
+export interface IOAuthProvider {
+  id: string;
+  kind: OAuthProviderKind;
+}
+
+export interface IOAuthProviderParams {
+  provider: string;
+}
+
+export interface IOAuthCompleteQuery {
+  error?: string;
+}
+
+export interface IOAuthStartResult {
+  url: string;
+  /** Set-Cookie values carrying better-auth's signed OAuth state */
+  cookies: string[];
+}
@@ -0,0 +1,69 @@
+/**
+ * Counter state for a single rate-limit key
+ */
+export interface RateLimitRecord {
+  /** Hits recorded in the current window */
+  count: number;
+  /** When the current window ends and the counter resets */
+  resetAt: Date;
+  /** Set while the key is locked out */
+  lockedUntil: Date | null;
+}
+
+/**
+ * Storage backend for rate-limit counters
+ * 
+ * Implementations must make `increment` atomic so that concurrent requests
+ * (possibly on different instances, for shared stores) are all counted.
+ */
+export interface IRateLimitRepository {
+  /**
+   * Count a hit for the key, starting a new window if the previous one expired
+   * 
+   * @param key - Rate-limit key, e.g. `signin:ip:203.0.113.7`
+   * @param windowMs - Window length used when a new window starts
+   * @returns The record after the hit
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitRecord>;
+
+  /**
+   * Get the current record for a key
+   * 
+   * @returns The record, or null if the key has no active window or lockout
+   */
+  get(key: string): Promise<RateLimitRecord | null>;
+
+  /**
+   * Lock the key out until the given time
+   */
+  lock(key: string, until: Date): Promise<void>;
+
+  /**
+   * Remove all state for the key
+   */
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * A throttling rule applied by the rate-limit middleware
+ */
+export interface RateLimitRule {
+  /** Rule name, used as key prefix and in logs */
+  name: string;
+  windowMs: number;
+  max: number;
+}
+
+/**
+ * Rate limiting and lockout configuration
+ */
+export interface RateLimitConfig {
+  store: 'memory' | 'postgres';
+  authWindowMs: number;
+  authMaxPerIp: number;
+  authMaxPerEmail: number;
+  lockoutThreshold: number;
+  lockoutFailureWindowMs: number;
+  lockoutBaseMs: number;
+  lockoutMaxMs: number;
+}
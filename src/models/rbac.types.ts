@@ -0,0 +1,51 @@
+/**
+ * Well-known role names
+ */
+export const ROLES = {
+  ADMIN: 'admin',
+  USER: 'user',
+} as const;
+
+/**
+ * Well-known permission names, formatted `<resource>:<action>`
+ */
+export const PERMISSIONS = {
+  ROLES_READ: 'roles:read',
+  ROLES_MANAGE: 'roles:manage',
+  USERS_READ: 'users:read',
+  AUDIT_READ: 'audit:read',
+} as const;
+
+export interface IRole {
+  id: number;
+  name: string;
+  description: string | null;
+  permissions: string[];
+}
+
+export interface IUserRole {
+  name: string;
+  grantedBy: string | null;
+  grantedAt: Date;
+}
+
+/**
+ * Roles and effective permissions of a user, resolved once per request
+ */
+export interface IUserAuthorization {
+  roles: string[];
+  permissions: string[];
+}
+
+export interface IGrantRoleRequest {
+  role: string;
+}
+
+export interface IUserRoleParams {
+  userId: string;
+}
+
+export interface IRevokeRoleParams {
+  userId: string;
+  role: string;
+}
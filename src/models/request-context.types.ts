@@ -0,0 +1,14 @@
+/**
+ * Per-request context carried through async call chains
+ */
+export interface RequestContext {
+  /** Correlation id from X-Request-Id or generated */
+  requestId: string;
+  /** Authenticated user id, set once requireAuth succeeds */
+  userId?: string;
+  /** Client address as resolved by Express (honours trust proxy) */
+  ipAddress?: string;
+  userAgent?: string;
+  /** Set once the request used the primary, so later reads skip the replicas */
+  pinnedToPrimary?: boolean;
+}
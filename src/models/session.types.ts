@@ -0,0 +1,33 @@
+import type { AuthSessionRecord, AuthUser } from '../config/auth.config';
+import { IAuthSessionDto } from './auth.types';
+
+/**
+ * Session lifetime and refresh token configuration
+ */
+export interface SessionConfig {
+  /** Session lifetime in seconds */
+  sessionTtl: number;
+  /** How often activity pushes the session expiry forward, in seconds */
+  sessionUpdateAge: number;
+  /** Extend sessions on authenticated requests; when false sessions expire sessionTtl after sign-in */
+  slidingExpiry: boolean;
+  /** Refresh token lifetime in seconds, renewed on every rotation */
+  refreshTokenTtl: number;
+}
+
+/**
+ * Client details recorded on sessions created by a refresh
+ */
+export interface IClientInfo {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Result of exchanging a refresh token
+ */
+export interface IRotatedSession {
+  user: AuthUser;
+  session: AuthSessionRecord;
+  refreshToken: IAuthSessionDto;
+}
@@ -0,0 +1,17 @@
+/**
+ * Where finished spans are sent
+ * 
+ * - otlp: OTLP/HTTP collector, batched
+ * - console: printed to stdout as each span ends
+ * - memory: kept in process, for tests and debugging without a collector
+ * - none: tracing disabled; spans are no-ops
+ */
+export type TraceExporterKind = 'otlp' | 'console' | 'memory' | 'none';
+
+export interface TracingConfig {
+  exporter: TraceExporterKind;
+  /** Reported as service.name on every span */
+  serviceName: string;
+  /** Fraction of new traces to sample; the sampling decision of an incoming traceparent is kept */
+  sampleRatio: number;
+}
@@ -0,0 +1,47 @@
+/**
+ * TOTP two-factor authentication configuration
+ */
+export interface TwoFactorConfig {
+  /** Issuer name shown in authenticator apps */
+  issuer: string;
+  /** Key material for encrypting TOTP secrets at rest */
+  encryptionKey: string;
+  /** How long a pending sign-in waits for the second factor, in seconds */
+  challengeTtl: number;
+  /** Wrong codes allowed per pending sign-in */
+  maxChallengeAttempts: number;
+  recoveryCodeCount: number;
+}
+
+export interface ITwoFactorCodeRequest {
+  code: string;
+}
+
+export interface ITwoFactorVerifyRequest {
+  challengeToken: string;
+  /** 6-digit authenticator code; send either this or recoveryCode */
+  code?: string;
+  recoveryCode?: string;
+}
+
+/**
+ * Returned once on enrollment; the secret and recovery codes cannot be read back
+ */
+export interface ITwoFactorEnrollmentResponse {
+  otpauthUri: string;
+  secret: string;
+  recoveryCodes: string[];
+}
+
+export interface ITwoFactorStatusResponse {
+  enabled: boolean;
+}
+
+/**
+ * Sign-in result when the password was correct but a second factor is required
+ */
+export interface ITwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresAt: Date;
+}
@@ -0,0 +1,23 @@
+import { IAuthUserDto } from './auth.types';
+
+export interface IUserProfile {
+  userId: string;
+  displayName: string | null;
+  avatarUrl: string | null;
+  locale: string | null;
+  timezone: string | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+}
+
+export interface IUpdateUserProfileRequest {
+  displayName?: string | null;
+  avatarUrl?: string | null;
+  locale?: string | null;
+  timezone?: string | null;
+}
+
+export interface IUserProfileResponse {
+  user: IAuthUserDto;
+  profile: IUserProfile;
+}
@@ -0,0 +1,67 @@
+/**
+ * Primitive types a field can be validated as
+ */
+export type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'array';
+
+/**
+ * Built-in string formats
+ */
+export type StringFormat = 'email' | 'url' | 'uuid';
+
+/**
+ * Part of the request a schema applies to
+ */
+export type RequestLocation = 'body' | 'query' | 'params';
+
+/**
+ * Declarative validation rule for a single field
+ */
+export interface FieldRule {
+  type: FieldType;
+  required?: boolean;        // Default: false
+  nullable?: boolean;        // Accept explicit null. Default: false
+  trim?: boolean;            // Trim strings before validating
+  lowercase?: boolean;       // Lowercase strings before validating
+  minLength?: number;        // Strings: characters; arrays: items
+  maxLength?: number;
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+  format?: StringFormat;
+  enum?: readonly (string | number)[];
+  /** Rule applied to every element of an array field */
+  items?: FieldRule;
+  /** Custom check - return an error message, or undefined when valid */
+  validate?: (value: unknown) => string | undefined;
+  /** Overrides the generated message for pattern/format/custom failures */
+  message?: string;
+}
+
+/**
+ * Schema for an object, keyed by the fields of the DTO it validates
+ * 
+ * Mapping over `keyof T` makes the compiler flag any DTO field that has no rule.
+ */
+export type ObjectSchema<T> = { [K in keyof T]-?: FieldRule };
+
+/**
+ * Schemas for each part of a request, attached per route
+ */
+export type RequestSchema = Partial<Record<RequestLocation, ObjectSchema<object>>>;
+
+/**
+ * A single failed field check
+ */
+export interface IValidationErrorDetail {
+  location: RequestLocation;
+  field: string;
+  message: string;
+}
+
+/**
+ * Result of validating one object against a schema
+ */
+export interface ObjectValidationResult<T> {
+  value: T;
+  errors: IValidationErrorDetail[];
+}
@@ -0,0 +1,110 @@
+import { Collection, MongoServerError } from 'mongodb';
+import { BaseMongoRepository } from './base-mongo.repository';
+import { IActivityEvent, IActivityRepository, IRequestsPerDay, IRouteCount } from '../models/activity.types';
+
+const COLLECTION = 'user_activity';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/** Server error raised when an index exists with different options */
+const INDEX_OPTIONS_CONFLICT = 85;
+
+/**
+ * User activity in MongoDB
+ * 
+ * Retention is a TTL index on occurredAt, so MongoDB deletes expired events on
+ * its own. Changing the retention updates the existing index in place.
+ */
+export class ActivityRepository extends BaseMongoRepository implements IActivityRepository {
+  private indexesCreated: Promise<void> | null = null;
+
+  constructor(private retentionDays: number) {
+    super();
+  }
+
+  async insertMany(events: IActivityEvent[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    const collection = await this.collection();
+    // The driver sets _id on each event in place, so a retried batch reuses them
+    await this.insertManyIgnoringDuplicates(collection, events);
+  }
+
+  async findRecent(userId: string, limit: number): Promise<IActivityEvent[]> {
+    const collection = await this.collection();
+
+    return collection
+      .find({ userId }, { projection: { _id: 0 } })
+      .sort({ occurredAt: -1 })
+      .limit(limit)
+      .toArray();
+  }
+
+  async countByDay(userId: string, since: Date): Promise<IRequestsPerDay[]> {
+    const collection = await this.collection();
+
+    return collection
+      .aggregate<IRequestsPerDay>([
+        { $match: { userId, occurredAt: { $gte: since } } },
+        { $group: { _id: { $dateToString: { format: '%Y-%m-%d', date: '$occurredAt' } }, count: { $sum: 1 } } },
+        { $sort: { _id: 1 } },
+        { $project: { _id: 0, date: '$_id', count: 1 } },
+      ])
+      .toArray();
+  }
+
+  async topRoutes(userId: string, since: Date, limit: number): Promise<IRouteCount[]> {
+    const collection = await this.collection();
+
+    return collection
+      .aggregate<IRouteCount>([
+        { $match: { userId, occurredAt: { $gte: since } } },
+        { $group: { _id: { method: '$method', route: '$route' }, count: { $sum: 1 } } },
+        { $sort: { count: -1, '_id.route': 1 } },
+        { $limit: limit },
+        { $project: { _id: 0, method: '$_id.method', route: '$_id.route', count: 1 } },
+      ])
+      .toArray();
+  }
+
+  /**
+   * The collection, with its indexes created on first use
+   */
+  private async collection(): Promise<Collection<IActivityEvent>> {
+    const collection = this.db.collection<IActivityEvent>(COLLECTION);
+
+    if (!this.indexesCreated) {
+      this.indexesCreated = this.createIndexes(collection).catch((error) => {
+        // Retry on the next call rather than caching the failure
+        this.indexesCreated = null;
+        throw error;
+      });
+    }
+
+    await this.indexesCreated;
+
+    return collection;
+  }
+
+  private async createIndexes(collection: Collection<IActivityEvent>): Promise<void> {
+    const expireAfterSeconds = this.retentionDays * DAY_SECONDS;
+
+    await collection.createIndex({ userId: 1, occurredAt: -1 });
+
+    try {
+      await collection.createIndex({ occurredAt: 1 }, { expireAfterSeconds });
+    } catch (error) {
+      if (!(error instanceof MongoServerError && error.code === INDEX_OPTIONS_CONFLICT)) {
+        throw error;
+      }
+
+      // The TTL index exists with the previous retention
+      await this.db.command({
+        collMod: COLLECTION,
+        index: { keyPattern: { occurredAt: 1 }, expireAfterSeconds },
+      });
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { BaseRepository } from './base.repository';
+import { apiKeys, ApiKeyRow, NewApiKeyRow } from '../db/schema';
+
+export class ApiKeyRepository extends BaseRepository {
+  async create(data: NewApiKeyRow): Promise<ApiKeyRow> {
+    const [apiKey] = await this.writeDb.insert(apiKeys).values(data).returning();
+
+    return apiKey;
+  }
+
+  async findByPrefix(prefix: string): Promise<ApiKeyRow | null> {
+    const [apiKey] = await this.primaryReadDb
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.prefix, prefix))
+      .limit(1);
+
+    return apiKey ?? null;
+  }
+
+  /**
+   * Keys of a user that have not been revoked, newest first
+   */
+  async findActiveByUserId(userId: string): Promise<ApiKeyRow[]> {
+    return this.readDb
+      .select()
+      .from(apiKeys)
+      .where(and(eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  /**
+   * @returns false if the key does not exist, belongs to another user or is
+   *   already revoked
+   */
+  async revoke(id: string, userId: string): Promise<boolean> {
+    const revoked = await this.writeDb
+      .update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+      .returning({ id: apiKeys.id });
+
+    return revoked.length > 0;
+  }
+
+  async touch(id: string): Promise<void> {
+    await this.writeDb.update(apiKeys).set({ lastUsedAt: new Date() }).where(eq(apiKeys.id, id));
+  }
+}
@@ -0,0 +1,74 @@
+import { and, count, desc, eq, gte, lt, SQL } from 'drizzle-orm';
+import { BaseRepository } from './base.repository';
+import { DatabaseError } from '../models/database.types';
+import { auditEvents, AuditEventRow } from '../db/schema';
+import { IAuditEvent, IAuditFilter, IAuditQueryResult, IAuditRepository } from '../models/audit.types';
+
+/**
+ * SQLSTATE classes 22 (data exception) and 23 (integrity constraint violation):
+ * the rows themselves are invalid, so writing them again fails the same way
+ */
+function isInvalidData(error: unknown): boolean {
+  const code = error instanceof Error ? (error as { code?: unknown }).code : undefined;
+  return typeof code === 'string' && (code.startsWith('22') || code.startsWith('23'));
+}
+
+/**
+ * PostgreSQL audit store (AUDIT_STORE=postgres, the default)
+ * 
+ * The table rejects updates and deletes at the database level.
+ */
+export class AuditRepository extends BaseRepository implements IAuditRepository {
+  async append(events: IAuditEvent[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    try {
+      // Events keep their id across retries, so rows a previous attempt wrote are skipped
+      await this.writeDb.insert(auditEvents).values(events).onConflictDoNothing();
+    } catch (error) {
+      if (isInvalidData(error)) {
+        throw new DatabaseError(`Audit events rejected: ${(error as Error).message}`, 'INVALID_DATA', 'permanent');
+      }
+
+      throw error;
+    }
+  }
+
+  async find(filter: IAuditFilter, limit: number, offset: number): Promise<IAuditQueryResult> {
+    const where = this.where(filter);
+
+    const [rows, [{ total }]] = await Promise.all([
+      this.readDb
+        .select()
+        .from(auditEvents)
+        .where(where)
+        .orderBy(desc(auditEvents.occurredAt), desc(auditEvents.id))
+        .limit(limit)
+        .offset(offset),
+      this.readDb.select({ total: count() }).from(auditEvents).where(where),
+    ]);
+
+    return { events: rows.map((row) => this.toEvent(row)), total };
+  }
+
+  private where(filter: IAuditFilter): SQL | undefined {
+    return and(
+      filter.type ? eq(auditEvents.type, filter.type) : undefined,
+      filter.outcome ? eq(auditEvents.outcome, filter.outcome) : undefined,
+      filter.actorId ? eq(auditEvents.actorId, filter.actorId) : undefined,
+      filter.targetId ? eq(auditEvents.targetId, filter.targetId) : undefined,
+      filter.from ? gte(auditEvents.occurredAt, filter.from) : undefined,
+      filter.to ? lt(auditEvents.occurredAt, filter.to) : undefined
+    );
+  }
+
+  private toEvent(row: AuditEventRow): IAuditEvent {
+    return {
+      ...row,
+      type: row.type as IAuditEvent['type'],
+      outcome: row.outcome as IAuditEvent['outcome'],
+    };
+  }
+}
@@ -1,39 +1,276 @@
-import { auth } from '../config/auth.config';
-import { IUser } from '../models/auth.types';
+import { APIError } from 'better-auth/api';
+import {
+  AuthSession,
+  AuthSessionRecord,
+  AuthUser,
+  SignInEmailResult,
+  SignUpEmailResult,
+  getAuth,
+} from '../config/auth.config';
+import { categorizeError } from '../config/database';
+import { DatabaseError } from '../models/database.types';
+import { withSpan } from '../utils/tracing';
+import { IClientInfo } from '../models/session.types';
+import { IOAuthProvider, IOAuthStartResult } from '../models/oauth.types';
+import {
+  AppError,
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+  RateLimitError,
+  ServiceUnavailableError,
+  ValidationError,
+} from '../models/error.types';
+
+const DEFAULT_RETRY_AFTER = 60; // seconds
 
 export class AuthRepository {
-  async createUser(email: string, password: string, name?: string): Promise<any> {
-    return await auth.api.signUpEmail({
-      body: {
-        email,
-        password,
-        name,
-      },
+  async createUser(email: string, password: string, name: string): Promise<SignUpEmailResult> {
+    return this.execute('createUser', () =>
+      getAuth().api.signUpEmail({
+        body: {
+          email,
+          password,
+          name,
+        },
+      })
+    );
+  }
+
+  async authenticateUser(email: string, password: string): Promise<SignInEmailResult> {
+    return this.execute('authenticateUser', () =>
+      getAuth().api.signInEmail({
+        body: {
+          email,
+          password,
+        },
+      })
+    );
+  }
+
+  async getUserBySession(sessionToken: string): Promise<AuthSession | null> {
+    return this.execute('getUserBySession', () =>
+      getAuth().api.getSession({
+        headers: {
+          authorization: `Bearer ${sessionToken}`,
+        },
+      })
+    );
+  }
+
+  async signOut(sessionToken: string): Promise<void> {
+    await this.execute('signOut', () =>
+      getAuth().api.signOut({
+        headers: {
+          authorization: `Bearer ${sessionToken}`,
+        },
+      })
+    );
+  }
+
+  /**
+   * All unexpired sessions belonging to the owner of `sessionToken`
+   */
+  async listSessions(sessionToken: string): Promise<AuthSessionRecord[]> {
+    return this.execute('listSessions', () =>
+      getAuth().api.listSessions({
+        headers: {
+          authorization: `Bearer ${sessionToken}`,
+        },
+      })
+    );
+  }
+
+  /**
+   * better-auth only deletes `targetToken` if it belongs to the same user as
+   * `sessionToken`
+   */
+  async revokeSession(sessionToken: string, targetToken: string): Promise<void> {
+    await this.execute('revokeSession', () =>
+      getAuth().api.revokeSession({
+        headers: {
+          authorization: `Bearer ${sessionToken}`,
+        },
+        body: {
+          token: targetToken,
+        },
+      })
+    );
+  }
+
+  async revokeOtherSessions(sessionToken: string): Promise<void> {
+    await this.execute('revokeOtherSessions', () =>
+      getAuth().api.revokeOtherSessions({
+        headers: {
+          authorization: `Bearer ${sessionToken}`,
+        },
+      })
+    );
+  }
+
+  /**
+   * Build the provider's authorization URL
+   * 
+   * better-auth keeps the OAuth state in a signed cookie that must reach the
+   * browser with the redirect, so its Set-Cookie headers are returned too.
+   */
+  async startOAuth(provider: IOAuthProvider, callbackURL: string): Promise<IOAuthStartResult> {
+    const body = { callbackURL, errorCallbackURL: callbackURL, disableRedirect: true };
+    const { headers, response } = await this.execute('startOAuth', () =>
+      provider.kind === 'social'
+        ? getAuth().api.signInSocial({ body: { ...body, provider: provider.id }, returnHeaders: true })
+        : getAuth().api.signInWithOAuth2({ body: { ...body, providerId: provider.id }, returnHeaders: true })
+    );
+
+    if (!response.url) {
+      throw new ServiceUnavailableError('auth', `No authorization URL returned for ${provider.id}`);
+    }
+
+    return { url: response.url, cookies: headers.getSetCookie() };
+  }
+
+  /**
+   * Session identified by better-auth's session cookie, as set by an OAuth callback
+   */
+  async getSessionFromCookies(cookie: string): Promise<AuthSession | null> {
+    return this.execute('getSessionFromCookies', () =>
+      getAuth().api.getSession({
+        headers: {
+          cookie,
+        },
+      })
+    );
+  }
+
+  /**
+   * Open a session for a user without credentials
+   * 
+   * Goes through better-auth's internal adapter, so only call this once the
+   * caller has proven who they are by other means (e.g. a refresh token).
+   */
+  async createSession(userId: string, client: IClientInfo): Promise<AuthSessionRecord> {
+    return this.execute('createSession', async () => {
+      const context = await getAuth().$context;
+      return context.internalAdapter.createSession(userId, false, {
+        ipAddress: client.ipAddress,
+        userAgent: client.userAgent,
+      });
     });
   }
 
-  async authenticateUser(email: string, password: string): Promise<any> {
-    return await auth.api.signInEmail({
-      body: {
-        email,
-        password,
-      },
+  /**
+   * Delete a session by token, whoever it belongs to
+   */
+  async deleteSession(sessionToken: string): Promise<void> {
+    await this.execute('deleteSession', async () => {
+      const context = await getAuth().$context;
+      await context.internalAdapter.deleteSession(sessionToken);
     });
   }
 
-  async getUserBySession(sessionToken: string): Promise<any> {
-    return await auth.api.getSession({
-      headers: {
-        authorization: `Bearer ${sessionToken}`,
-      },
+  async findUserById(userId: string): Promise<AuthUser | null> {
+    return this.execute('findUserById', async () => {
+      const context = await getAuth().$context;
+      return context.internalAdapter.findUserById(userId);
     });
   }
 
-  async signOut(sessionToken: string): Promise<void> {
-    await auth.api.signOut({
-      headers: {
-        authorization: `Bearer ${sessionToken}`,
-      },
+  /**
+   * better-auth answers identically whether or not the account exists and
+   * mails the reset link through the sendResetPassword hook
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    await this.execute('requestPasswordReset', () =>
+      getAuth().api.requestPasswordReset({
+        body: {
+          email,
+        },
+      })
+    );
+  }
+
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    await this.execute('resetPassword', () =>
+      getAuth().api.resetPassword({
+        body: {
+          token,
+          newPassword,
+        },
+      })
+    );
+  }
+
+  async sendVerificationEmail(email: string): Promise<void> {
+    await this.execute('sendVerificationEmail', () =>
+      getAuth().api.sendVerificationEmail({
+        body: {
+          email,
+        },
+      })
+    );
+  }
+
+  async verifyEmail(token: string): Promise<void> {
+    await this.execute('verifyEmail', () =>
+      getAuth().api.verifyEmail({
+        query: {
+          token,
+        },
+      })
+    );
+  }
+
+  /**
+   * Runs a better-auth API call in a span, translating its failures into
+   * application errors
+   * 
+   * better-auth reports expected failures (bad credentials, duplicate user) as
+   * APIError. Anything else escaping it comes from the underlying database and is
+   * categorized so that outages surface as 503 rather than as auth failures.
+   * 
+   * @param name - Span name suffix, e.g. `better-auth createUser`
+   */
+  private async execute<T>(name: string, operation: () => Promise<T>): Promise<T> {
+    return withSpan(`better-auth ${name}`, async () => {
+      try {
+        return await operation();
+      } catch (error) {
+        throw this.mapError(error);
+      }
     });
   }
+
+  private mapError(error: unknown): Error {
+    if (error instanceof DatabaseError) {
+      return error;
+    }
+
+    if (!(error instanceof APIError)) {
+      return error instanceof Error ? categorizeError(error) : new Error(String(error));
+    }
+
+    const code = error.body?.code || String(error.status);
+    const message = error.body?.message || error.message;
+
+    if (code === 'USER_ALREADY_EXISTS' || error.statusCode === 409) {
+      return new ConflictError(message, code);
+    }
+
+    switch (error.statusCode) {
+      case 400:
+      case 422:
+        return new ValidationError(message);
+      case 401:
+      case 403:
+        return new AuthenticationError(message, code);
+      case 404:
+        return new NotFoundError(message, code);
+      case 429:
+        return new RateLimitError(DEFAULT_RETRY_AFTER, message);
+      default:
+        return error.statusCode >= 500
+          ? new ServiceUnavailableError('auth', message)
+          : new AppError(message, error.statusCode, code);
+    }
+  }
 }
@@ -0,0 +1,83 @@
+import { Collection, Db, Document, MongoBulkWriteError, OptionalUnlessRequiredId } from 'mongodb';
+import { DatabaseError } from '../models/database.types';
+import { getMongoDb } from '../config/mongodb';
+
+/** Server error raised when a document's _id (or another unique key) already exists */
+const DUPLICATE_KEY = 11000;
+
+/**
+ * Base class for repositories backed by MongoDB
+ * 
+ * Counterpart to BaseRepository. The Db handle is resolved from the
+ * MongoConnectionManager on every access, so repositories can be created at
+ * module load and keep working after the manager recreates its client.
+ * 
+ * @example
+ * ```typescript
+ * export class EventRepository extends BaseMongoRepository {
+ *   async insert(event: EventDocument) {
+ *     await this.db.collection<EventDocument>('events').insertOne(event);
+ *   }
+ * }
+ * ```
+ */
+export abstract class BaseMongoRepository {
+  /**
+   * @throws {DatabaseError} Temporary NOT_INITIALIZED error if MONGODB_URI is
+   *                 not set or MongoConnectionManager.initializeConnection() has
+   *                 not been called yet
+   */
+  protected get db(): Db {
+    const db = getMongoDb();
+
+    if (!db) {
+      throw new DatabaseError(
+        'MongoDB client not initialized. Set MONGODB_URI and ensure MongoConnectionManager.initializeConnection() is called before executing repository queries.',
+        'NOT_INITIALIZED',
+        'temporary'
+      );
+    }
+
+    return db;
+  }
+
+  /**
+   * Insert documents unordered, treating ones that already exist as written
+   * 
+   * A retried batch hits duplicate keys for the documents the earlier attempt
+   * did insert, since they keep their _id. Any other per-document error means
+   * the server rejected the document itself, so retrying cannot help.
+   * 
+   * @throws {DatabaseError} Permanent INVALID_DATA error if the server
+   *                 rejected documents for a reason other than a duplicate key
+   */
+  protected async insertManyIgnoringDuplicates<T extends Document>(
+    collection: Collection<T>,
+    documents: OptionalUnlessRequiredId<T>[]
+  ): Promise<void> {
+    try {
+      await collection.insertMany(documents, { ordered: false });
+    } catch (error) {
+      if (!(error instanceof MongoBulkWriteError)) {
+        throw error;
+      }
+
+      const writeErrors = [error.writeErrors].flat().filter(Boolean);
+
+      // Without per-document errors the write concern failed; retry the batch
+      if (writeErrors.length === 0) {
+        throw error;
+      }
+
+      const rejected = writeErrors.filter((writeError) => writeError.code !== DUPLICATE_KEY);
+
+      if (rejected.length > 0) {
+        throw new DatabaseError(
+          `${rejected.length} of ${documents.length} documents rejected: ${rejected[0].errmsg ?? rejected[0].code}`,
+          'INVALID_DATA',
+          'permanent'
+        );
+      }
+    }
+  }
+}
@@ -1,5 +1,6 @@
-import { DrizzleClient } from '../models/database.types';
-import { getDbClient } from '../config/database';
+import { DrizzleClient, DrizzleExecutor, DrizzleTransaction } from '../models/database.types';
+import { DatabaseError } from '../models/database.types';
+import { getPrimaryReadClient, getReadClient, getWriteClient } from '../config/database';
 
 /**
  * Base repository class providing database client access
@@ -11,6 +12,11 @@ import { getDbClient } from '../config/database';
  * The Drizzle client is obtained from the ConnectionManager singleton and provides type-safe
  * query building capabilities based on the schema definition.
  * 
+ * Every query states where it runs: readDb for reads that tolerate replication
+ * lag (served by a read replica when one is configured), primaryReadDb for reads
+ * that must be current, such as credential and permission checks, and writeDb
+ * for writes.
+ * 
  * @example
  * ```typescript
  * import { eq } from 'drizzle-orm';
@@ -18,57 +24,113 @@ import { getDbClient } from '../config/database';
  * 
  * export class UserRepository extends BaseRepository {
  *   async findById(id: string) {
- *     return this.db.query.users.findFirst({ 
+ *     return this.readDb.query.users.findFirst({ 
  *       where: eq(users.id, id) 
  *     });
  *   }
  * 
  *   async create(data: NewUser) {
- *     const [user] = await this.db.insert(users).values(data).returning();
+ *     const [user] = await this.writeDb.insert(users).values(data).returning();
  *     return user;
  *   }
  * }
  * ```
  * 
+ * To make several calls atomic, open a transaction with UnitOfWork and pass it to
+ * each repository with withTransaction().
+ * 
  * @see {@link https://orm.drizzle.team/docs/overview|Drizzle ORM Documentation}
  */
 export abstract class BaseRepository {
+  /** Set on copies returned by withTransaction() */
+  private transaction: DrizzleTransaction | null = null;
+
   /**
-   * Drizzle database client instance
+   * A copy of this repository whose queries run in the given transaction
    * 
-   * Use this property to execute database queries using Drizzle's query builder API.
-   * The client provides type-safe access to all tables defined in the schema.
+   * The copy shares everything else with this repository and is meant to be
+   * used only inside the transaction callback.
+   * 
+   * @example
+   * ```typescript
+   * await unitOfWork.run(async (tx) => {
+   *   await userProfileRepository.withTransaction(tx).upsert(userId, profile);
+   *   await roleRepository.withTransaction(tx).assignToUser(userId, roleId, adminId);
+   * });
+   * ```
+   */
+  withTransaction(tx: DrizzleTransaction): this {
+    const bound = Object.create(this) as this;
+    bound.transaction = tx;
+
+    return bound;
+  }
+
+  /**
+   * Drizzle client for reads that tolerate replication lag
+   * 
+   * A healthy read replica when DATABASE_REPLICA_URLS is set, otherwise the
+   * primary. Requests that already wrote read from the primary, so they see
+   * their own writes. Inside withTransaction() this is the transaction.
+   * 
+   * The client is resolved from the ConnectionManager on every access rather than
+   * captured at construction time. Repositories can therefore be created at module
+   * load (before the database is connected), and keep working after the manager
+   * recreates its pool during reconnection.
    * 
    * @example
    * ```typescript
    * // Query builder syntax
-   * const users = await this.db.query.users.findMany();
+   * const users = await this.readDb.query.users.findMany();
    * 
    * // SQL-like syntax
-   * const users = await this.db.select().from(usersTable);
+   * const users = await this.readDb.select().from(usersTable);
    * ```
+   * 
+   * @throws {DatabaseError} Temporary NOT_INITIALIZED error if the database client
+   *                 is not initialized. Ensure ConnectionManager.initializeConnection()
+   *                 is called during application startup before executing queries.
    */
-  protected readonly db: DrizzleClient;
+  protected get readDb(): DrizzleExecutor {
+    return this.transaction ?? this.requireClient(getReadClient());
+  }
 
   /**
-   * Constructor initializes the database client from ConnectionManager
+   * Drizzle client on the primary, for reads that must be current
    * 
-   * Retrieves the Drizzle client instance from the ConnectionManager singleton.
-   * Throws an error if the database connection has not been initialized.
+   * Unlike writeDb it does not pin the request, so per-request lookups such as
+   * session and permission checks leave the handler's reads on the replicas.
+   * Inside withTransaction() this is the transaction.
    * 
-   * @throws {Error} If database client is not initialized. Ensure 
-   *                 ConnectionManager.initializeConnection() is called during
-   *                 application startup before creating repository instances.
+   * @throws {DatabaseError} Temporary NOT_INITIALIZED error if the database client
+   *                 is not initialized
    */
-  constructor() {
-    const client = getDbClient();
-    
+  protected get primaryReadDb(): DrizzleExecutor {
+    return this.transaction ?? this.requireClient(getPrimaryReadClient());
+  }
+
+  /**
+   * Drizzle client on the primary, for writes
+   * 
+   * Using it pins the rest of the request to the primary. Inside
+   * withTransaction() this is the transaction.
+   * 
+   * @throws {DatabaseError} Temporary NOT_INITIALIZED error if the database client
+   *                 is not initialized
+   */
+  protected get writeDb(): DrizzleExecutor {
+    return this.transaction ?? this.requireClient(getWriteClient());
+  }
+
+  private requireClient(client: DrizzleClient | null): DrizzleClient {
     if (!client) {
-      throw new Error(
-        'Database client not initialized. Ensure ConnectionManager.initializeConnection() is called before creating repository instances.'
+      throw new DatabaseError(
+        'Database client not initialized. Ensure ConnectionManager.initializeConnection() is called before executing repository queries.',
+        'NOT_INITIALIZED',
+        'temporary'
       );
     }
     
-    this.db = client;
+    return client;
   }
 }
@@ -0,0 +1,29 @@
+import { eq } from 'drizzle-orm';
+import { BaseRepository } from './base.repository';
+import { consumedTokens } from '../db/schema';
+import { hashToken } from '../utils/token';
+
+export class ConsumedTokenRepository extends BaseRepository {
+  /**
+   * Atomically mark a token as used
+   * 
+   * @returns false if the token had already been claimed
+   */
+  async claim(token: string, purpose: string, expiresAt: Date): Promise<boolean> {
+    const claimed = await this.writeDb
+      .insert(consumedTokens)
+      .values({ tokenHash: hashToken(token), purpose, expiresAt })
+      .onConflictDoNothing()
+      .returning({ tokenHash: consumedTokens.tokenHash });
+
+    return claimed.length > 0;
+  }
+
+  /**
+   * Undo a claim when the token turned out to be unusable, so that a transient
+   * failure does not burn a valid link
+   */
+  async release(token: string): Promise<void> {
+    await this.writeDb.delete(consumedTokens).where(eq(consumedTokens.tokenHash, hashToken(token)));
+  }
+}
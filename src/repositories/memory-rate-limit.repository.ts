@@ -0,0 +1,69 @@
+import { IRateLimitRepository, RateLimitRecord } from '../models/rate-limit.types';
+
+const CLEANUP_INTERVAL = 60000; // 1 minute
+
+/**
+ * In-process rate-limit store
+ * 
+ * Default store for single-instance deployments and development. Counters are
+ * lost on restart and are not shared between instances; use RateLimitRepository
+ * (RATE_LIMIT_STORE=postgres) when running more than one instance.
+ */
+export class MemoryRateLimitRepository implements IRateLimitRepository {
+  private readonly records = new Map<string, RateLimitRecord>();
+  private readonly cleanupTimer: NodeJS.Timeout;
+
+  constructor() {
+    this.cleanupTimer = setInterval(() => this.removeExpired(), CLEANUP_INTERVAL);
+    // Never keep the process alive just for cleanup
+    this.cleanupTimer.unref();
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitRecord> {
+    const now = Date.now();
+    const existing = this.records.get(key);
+
+    if (!existing || existing.resetAt.getTime() <= now) {
+      const record: RateLimitRecord = {
+        count: 1,
+        resetAt: new Date(now + windowMs),
+        lockedUntil: existing?.lockedUntil ?? null,
+      };
+      this.records.set(key, record);
+      return { ...record };
+    }
+
+    existing.count += 1;
+    return { ...existing };
+  }
+
+  async get(key: string): Promise<RateLimitRecord | null> {
+    const record = this.records.get(key);
+    return record ? { ...record } : null;
+  }
+
+  async lock(key: string, until: Date): Promise<void> {
+    const existing = this.records.get(key);
+
+    if (existing) {
+      existing.lockedUntil = until;
+    } else {
+      this.records.set(key, { count: 0, resetAt: until, lockedUntil: until });
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  private removeExpired(): void {
+    const now = Date.now();
+
+    for (const [key, record] of this.records) {
+      const lockExpired = !record.lockedUntil || record.lockedUntil.getTime() <= now;
+      if (record.resetAt.getTime() <= now && lockExpired) {
+        this.records.delete(key);
+      }
+    }
+  }
+}
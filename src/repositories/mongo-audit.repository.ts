@@ -0,0 +1,82 @@
+import { Collection, Filter } from 'mongodb';
+import { BaseMongoRepository } from './base-mongo.repository';
+import { IAuditEvent, IAuditFilter, IAuditQueryResult, IAuditRepository } from '../models/audit.types';
+
+const COLLECTION = 'audit_events';
+
+type AuditDocument = Omit<IAuditEvent, 'id'> & { _id: string };
+
+/**
+ * MongoDB audit store (AUDIT_STORE=mongo)
+ * 
+ * Only ever inserts; grant the application's MongoDB user `insert` and `find`
+ * on the collection, without `update` or `remove`, to enforce append-only at
+ * the database as well.
+ */
+export class MongoAuditRepository extends BaseMongoRepository implements IAuditRepository {
+  private indexesCreated: Promise<void> | null = null;
+
+  async append(events: IAuditEvent[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    const collection = await this.collection();
+    await this.insertManyIgnoringDuplicates(collection, events.map(({ id, ...event }) => ({ _id: id, ...event })));
+  }
+
+  async find(filter: IAuditFilter, limit: number, offset: number): Promise<IAuditQueryResult> {
+    const collection = await this.collection();
+    const query = this.toQuery(filter);
+
+    const [documents, total] = await Promise.all([
+      collection.find(query).sort({ occurredAt: -1, _id: -1 }).skip(offset).limit(limit).toArray(),
+      collection.countDocuments(query),
+    ]);
+
+    return { events: documents.map(({ _id, ...event }) => ({ id: _id, ...event })), total };
+  }
+
+  /**
+   * The collection, with its indexes created on first use
+   */
+  private async collection(): Promise<Collection<AuditDocument>> {
+    const collection = this.db.collection<AuditDocument>(COLLECTION);
+
+    if (!this.indexesCreated) {
+      this.indexesCreated = collection
+        .createIndexes([
+          { key: { occurredAt: -1 } },
+          { key: { actorId: 1, occurredAt: -1 } },
+          { key: { type: 1, occurredAt: -1 } },
+        ])
+        .then(() => undefined)
+        .catch((error) => {
+          // Retry on the next call rather than caching the failure
+          this.indexesCreated = null;
+          throw error;
+        });
+    }
+
+    await this.indexesCreated;
+
+    return collection;
+  }
+
+  private toQuery(filter: IAuditFilter): Filter<AuditDocument> {
+    const { from, to, ...fields } = filter;
+    // Drop unset filters so they do not match on null
+    const query: Filter<AuditDocument> = Object.fromEntries(
+      Object.entries(fields).filter(([, value]) => value !== undefined)
+    );
+
+    if (from || to) {
+      query.occurredAt = {
+        ...(from && { $gte: from }),
+        ...(to && { $lt: to }),
+      };
+    }
+
+    return query;
+  }
+}
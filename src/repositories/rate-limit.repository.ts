@@ -0,0 +1,62 @@
+import { eq, sql } from 'drizzle-orm';
+import { BaseRepository } from './base.repository';
+import { rateLimits, RateLimitRow } from '../db/schema';
+import { IRateLimitRepository, RateLimitRecord } from '../models/rate-limit.types';
+
+/**
+ * PostgreSQL-backed rate-limit store shared by all instances
+ * 
+ * `increment` is a single upsert, so concurrent hits from any instance are
+ * counted atomically by the database.
+ */
+export class RateLimitRepository extends BaseRepository implements IRateLimitRepository {
+  async increment(key: string, windowMs: number): Promise<RateLimitRecord> {
+    const resetAt = new Date(Date.now() + windowMs);
+
+    const [row] = await this.writeDb
+      .insert(rateLimits)
+      .values({ key, count: 1, resetAt })
+      .onConflictDoUpdate({
+        target: rateLimits.key,
+        set: {
+          count: sql`CASE WHEN ${rateLimits.resetAt} <= now() THEN 1 ELSE ${rateLimits.count} + 1 END`,
+          resetAt: sql`CASE WHEN ${rateLimits.resetAt} <= now() THEN excluded.reset_at ELSE ${rateLimits.resetAt} END`,
+        },
+      })
+      .returning();
+
+    return this.toRecord(row);
+  }
+
+  async get(key: string): Promise<RateLimitRecord | null> {
+    const [row] = await this.primaryReadDb
+      .select()
+      .from(rateLimits)
+      .where(eq(rateLimits.key, key))
+      .limit(1);
+
+    return row ? this.toRecord(row) : null;
+  }
+
+  async lock(key: string, until: Date): Promise<void> {
+    await this.writeDb
+      .insert(rateLimits)
+      .values({ key, count: 0, resetAt: until, lockedUntil: until })
+      .onConflictDoUpdate({
+        target: rateLimits.key,
+        set: { lockedUntil: until },
+      });
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.writeDb.delete(rateLimits).where(eq(rateLimits.key, key));
+  }
+
+  private toRecord(row: RateLimitRow): RateLimitRecord {
+    return {
+      count: row.count,
+      resetAt: row.resetAt,
+      lockedUntil: row.lockedUntil,
+    };
+  }
+}
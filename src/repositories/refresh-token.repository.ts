@@ -0,0 +1,82 @@
+import { and, eq, isNull, ne } from 'drizzle-orm';
+import { BaseRepository } from './base.repository';
+import { refreshTokens, NewRefreshTokenRow, RefreshTokenRow } from '../db/schema';
+
+export class RefreshTokenRepository extends BaseRepository {
+  async create(data: NewRefreshTokenRow): Promise<RefreshTokenRow> {
+    const [token] = await this.writeDb.insert(refreshTokens).values(data).returning();
+
+    return token;
+  }
+
+  async findByHash(tokenHash: string): Promise<RefreshTokenRow | null> {
+    const [token] = await this.primaryReadDb
+      .select()
+      .from(refreshTokens)
+      .where(eq(refreshTokens.tokenHash, tokenHash))
+      .limit(1);
+
+    return token ?? null;
+  }
+
+  /**
+   * Atomically mark a token as rotated
+   * 
+   * @returns false if the token was already rotated or revoked, e.g. by a
+   *   concurrent refresh with the same token
+   */
+  async markRotated(id: string): Promise<boolean> {
+    const rotated = await this.writeDb
+      .update(refreshTokens)
+      .set({ rotatedAt: new Date() })
+      .where(and(eq(refreshTokens.id, id), isNull(refreshTokens.rotatedAt), isNull(refreshTokens.revokedAt)))
+      .returning({ id: refreshTokens.id });
+
+    return rotated.length > 0;
+  }
+
+  /**
+   * @returns Session tokens issued by the family, for revoking them as well
+   */
+  async revokeFamily(familyId: string): Promise<string[]> {
+    const rows = await this.writeDb
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(eq(refreshTokens.familyId, familyId))
+      .returning({ sessionToken: refreshTokens.sessionToken });
+
+    return rows.map((row) => row.sessionToken);
+  }
+
+  /**
+   * Revoke the live refresh tokens of a session
+   * 
+   * Rotated tokens are left as they are, so presenting one again is still
+   * detected as reuse.
+   */
+  async revokeBySessionToken(sessionToken: string): Promise<void> {
+    await this.writeDb
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(refreshTokens.sessionToken, sessionToken),
+        isNull(refreshTokens.revokedAt),
+        isNull(refreshTokens.rotatedAt)
+      ));
+  }
+
+  /**
+   * Revoke every refresh token of a user, optionally keeping the ones tied to
+   * the session making the request
+   */
+  async revokeByUser(userId: string, exceptSessionToken?: string): Promise<void> {
+    await this.writeDb
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(refreshTokens.userId, userId),
+        isNull(refreshTokens.revokedAt),
+        exceptSessionToken ? ne(refreshTokens.sessionToken, exceptSessionToken) : undefined
+      ));
+  }
+}
@@ -0,0 +1,95 @@
+import { and, eq } from 'drizzle-orm';
+import { BaseRepository } from './base.repository';
+import { permissions, rolePermissions, roles, userRoles, RoleRow } from '../db/schema';
+import { IRole, IUserRole } from '../models/rbac.types';
+
+export class RoleRepository extends BaseRepository {
+  async findAll(): Promise<IRole[]> {
+    const rows = await this.readDb
+      .select({
+        id: roles.id,
+        name: roles.name,
+        description: roles.description,
+        permission: permissions.name,
+      })
+      .from(roles)
+      .leftJoin(rolePermissions, eq(rolePermissions.roleId, roles.id))
+      .leftJoin(permissions, eq(permissions.id, rolePermissions.permissionId))
+      .orderBy(roles.name);
+
+    const byId = new Map<number, IRole>();
+    for (const row of rows) {
+      const role = byId.get(row.id) ?? { id: row.id, name: row.name, description: row.description, permissions: [] };
+      if (row.permission) {
+        role.permissions.push(row.permission);
+      }
+      byId.set(row.id, role);
+    }
+
+    return [...byId.values()];
+  }
+
+  async findByName(name: string): Promise<RoleRow | null> {
+    const [role] = await this.readDb
+      .select()
+      .from(roles)
+      .where(eq(roles.name, name))
+      .limit(1);
+
+    return role ?? null;
+  }
+
+  /**
+   * Read from the primary, like findUserPermissions, because requireRole
+   * authorizes on the result and a revoked role must not outlive replica lag
+   */
+  async findUserRoles(userId: string): Promise<IUserRole[]> {
+    return this.primaryReadDb
+      .select({
+        name: roles.name,
+        grantedBy: userRoles.grantedBy,
+        grantedAt: userRoles.grantedAt,
+      })
+      .from(userRoles)
+      .innerJoin(roles, eq(roles.id, userRoles.roleId))
+      .where(eq(userRoles.userId, userId))
+      .orderBy(roles.name);
+  }
+
+  async findUserPermissions(userId: string): Promise<string[]> {
+    const rows = await this.primaryReadDb
+      .selectDistinct({ name: permissions.name })
+      .from(userRoles)
+      .innerJoin(rolePermissions, eq(rolePermissions.roleId, userRoles.roleId))
+      .innerJoin(permissions, eq(permissions.id, rolePermissions.permissionId))
+      .where(eq(userRoles.userId, userId));
+
+    return rows.map((row) => row.name);
+  }
+
+  /**
+   * @param grantedBy - Granting user, or null when assigned automatically
+   * @returns true if the role was assigned, false if the user already had it
+   */
+  async assignToUser(userId: string, roleId: number, grantedBy: string | null): Promise<boolean> {
+    const inserted = await this.writeDb
+      .insert(userRoles)
+      .values({ userId, roleId, grantedBy })
+      .onConflictDoNothing()
+      .returning({ userId: userRoles.userId });
+
+    return inserted.length > 0;
+  }
+
+  /**
+   * @returns true if the role was removed, false if the user did not have it
+   */
+  async removeFromUser(userId: string, roleId: number): Promise<boolean> {
+    const deleted = await this.writeDb
+      .delete(userRoles)
+      .where(and(eq(userRoles.userId, userId), eq(userRoles.roleId, roleId)))
+      .returning({ userId: userRoles.userId });
+
+    return deleted.length > 0;
+  }
+}
@@ -0,0 +1,157 @@
+import { and, eq, isNull, lt, or, sql } from 'drizzle-orm';
+import { BaseRepository } from './base.repository';
+import {
+  twoFactor,
+  twoFactorChallenges,
+  twoFactorPendingSessions,
+  twoFactorRecoveryCodes,
+  TwoFactorChallengeRow,
+  TwoFactorRow,
+} from '../db/schema';
+
+export class TwoFactorRepository extends BaseRepository {
+  async findByUserId(userId: string): Promise<TwoFactorRow | null> {
+    const [row] = await this.primaryReadDb
+      .select()
+      .from(twoFactor)
+      .where(eq(twoFactor.userId, userId))
+      .limit(1);
+
+    return row ?? null;
+  }
+
+  /**
+   * Store a new, not yet enabled enrollment, replacing any earlier pending one
+   * 
+   * Run together with replaceRecoveryCodes in one transaction.
+   */
+  async savePending(userId: string, encryptedSecret: string): Promise<void> {
+    await this.writeDb
+      .insert(twoFactor)
+      .values({ userId, secret: encryptedSecret })
+      .onConflictDoUpdate({
+        target: twoFactor.userId,
+        set: { secret: encryptedSecret, enabled: false, lastUsedStep: null, enabledAt: null, updatedAt: new Date() },
+      });
+  }
+
+  async replaceRecoveryCodes(userId: string, recoveryCodeHashes: string[]): Promise<void> {
+    await this.writeDb.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+    await this.writeDb
+      .insert(twoFactorRecoveryCodes)
+      .values(recoveryCodeHashes.map((codeHash) => ({ userId, codeHash })));
+  }
+
+  async enable(userId: string): Promise<void> {
+    await this.writeDb
+      .update(twoFactor)
+      .set({ enabled: true, enabledAt: new Date(), updatedAt: new Date() })
+      .where(eq(twoFactor.userId, userId));
+  }
+
+  /**
+   * Deleting the enrollment cascades to its recovery codes
+   */
+  async remove(userId: string): Promise<void> {
+    await this.writeDb.delete(twoFactor).where(eq(twoFactor.userId, userId));
+  }
+
+  /**
+   * Atomically accept a TOTP time step
+   * 
+   * @returns false if this or a later step was already used
+   */
+  async recordUsedStep(userId: string, step: number): Promise<boolean> {
+    const updated = await this.writeDb
+      .update(twoFactor)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(twoFactor.userId, userId),
+        or(isNull(twoFactor.lastUsedStep), lt(twoFactor.lastUsedStep, step))
+      ))
+      .returning({ userId: twoFactor.userId });
+
+    return updated.length > 0;
+  }
+
+  /**
+   * Atomically mark a recovery code as used
+   * 
+   * @returns false if the code does not exist or was already used
+   */
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const consumed = await this.writeDb
+      .update(twoFactorRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(twoFactorRecoveryCodes.userId, userId),
+        eq(twoFactorRecoveryCodes.codeHash, codeHash),
+        isNull(twoFactorRecoveryCodes.usedAt)
+      ))
+      .returning({ id: twoFactorRecoveryCodes.id });
+
+    return consumed.length > 0;
+  }
+
+  async createChallenge(tokenHash: string, userId: string, expiresAt: Date): Promise<void> {
+    await this.writeDb.insert(twoFactorChallenges).values({ tokenHash, userId, expiresAt });
+  }
+
+  async findChallenge(tokenHash: string): Promise<TwoFactorChallengeRow | null> {
+    const [challenge] = await this.primaryReadDb
+      .select()
+      .from(twoFactorChallenges)
+      .where(eq(twoFactorChallenges.tokenHash, tokenHash))
+      .limit(1);
+
+    return challenge ?? null;
+  }
+
+  /**
+   * @returns The attempt count including this one
+   */
+  async incrementChallengeAttempts(tokenHash: string): Promise<number> {
+    const [challenge] = await this.writeDb
+      .update(twoFactorChallenges)
+      .set({ attempts: sql`${twoFactorChallenges.attempts} + 1` })
+      .where(eq(twoFactorChallenges.tokenHash, tokenHash))
+      .returning({ attempts: twoFactorChallenges.attempts });
+
+    return challenge?.attempts ?? Number.POSITIVE_INFINITY;
+  }
+
+  /**
+   * @returns false if the challenge was already used, e.g. by a concurrent request
+   */
+  async deleteChallenge(tokenHash: string): Promise<boolean> {
+    const deleted = await this.writeDb
+      .delete(twoFactorChallenges)
+      .where(eq(twoFactorChallenges.tokenHash, tokenHash))
+      .returning({ tokenHash: twoFactorChallenges.tokenHash });
+
+    return deleted.length > 0;
+  }
+
+  async createPendingSession(sessionToken: string, userId: string, expiresAt: Date): Promise<void> {
+    await this.writeDb
+      .insert(twoFactorPendingSessions)
+      .values({ sessionToken, userId, expiresAt })
+      .onConflictDoNothing();
+  }
+
+  async isSessionPending(sessionToken: string): Promise<boolean> {
+    const [pending] = await this.primaryReadDb
+      .select({ sessionToken: twoFactorPendingSessions.sessionToken })
+      .from(twoFactorPendingSessions)
+      .where(eq(twoFactorPendingSessions.sessionToken, sessionToken))
+      .limit(1);
+
+    return pending !== undefined;
+  }
+
+  async deletePendingSession(sessionToken: string): Promise<void> {
+    await this.writeDb
+      .delete(twoFactorPendingSessions)
+      .where(eq(twoFactorPendingSessions.sessionToken, sessionToken));
+  }
+}
@@ -0,0 +1,96 @@
+import { categorizeError, getWriteClient, sleep } from '../config/database';
+import { DatabaseError, DrizzleClient, DrizzleTransaction, TransactionOptions } from '../models/database.types';
+import logger from '../config/logger.config';
+
+const log = logger.child({ component: 'unit-of-work' });
+
+const DEFAULT_MAX_RETRIES = 3;
+
+/** First retry waits about this long; later ones back off exponentially */
+const RETRY_BASE_DELAY_MS = 20;
+
+/** Errors that abort a transaction but usually succeed when it is rerun */
+const RETRYABLE_CODES = new Set(['SERIALIZATION_FAILURE', 'DEADLOCK']);
+
+/**
+ * Runs work atomically across repositories
+ * 
+ * Services open a transaction with run() and hand it to each repository through
+ * BaseRepository.withTransaction(). Everything commits together when the
+ * callback resolves, and rolls back if it throws.
+ * 
+ * A transaction that fails with a serialization failure or deadlock is rerun
+ * from the start, so the callback must not have side effects outside the
+ * database (sending mail, recording audit events) that would repeat. Do those
+ * after run() resolves.
+ * 
+ * @example
+ * ```typescript
+ * const profile = await unitOfWork.run(async (tx) => {
+ *   const profile = await userProfileRepository.withTransaction(tx).upsert(userId, changes);
+ *   await roleRepository.withTransaction(tx).assignToUser(userId, roleId, adminId);
+ * 
+ *   // Savepoint: only this part rolls back if it throws and the error is caught
+ *   await unitOfWork.run(async (sp) => { ... }, { parent: tx }).catch(...);
+ * 
+ *   return profile;
+ * }, { isolationLevel: 'serializable' });
+ * ```
+ */
+export class UnitOfWork {
+  async run<T>(work: (tx: DrizzleTransaction) => Promise<T>, options: TransactionOptions = {}): Promise<T> {
+    const { parent, maxRetries = DEFAULT_MAX_RETRIES, ...config } = options;
+
+    if (parent) {
+      return parent.transaction(work);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.client.transaction(work, config);
+      } catch (error) {
+        if (!(error instanceof Error)) {
+          throw error;
+        }
+
+        const { code } = categorizeError(error);
+
+        if (!RETRYABLE_CODES.has(code) || attempt >= maxRetries) {
+          throw error;
+        }
+
+        // Jitter keeps the conflicting transactions from colliding again
+        const delay = RETRY_BASE_DELAY_MS * Math.pow(2, attempt) * (1 + Math.random());
+        log.warn({ code, attempt: attempt + 1, maxRetries, delay: Math.round(delay) }, 'Transaction conflict, retrying');
+        await sleep(delay);
+      }
+    }
+  }
+
+  private get client(): DrizzleClient {
+    const client = getWriteClient();
+
+    if (!client) {
+      throw new DatabaseError(
+        'Database client not initialized. Ensure ConnectionManager.initializeConnection() is called before opening transactions.',
+        'NOT_INITIALIZED',
+        'temporary'
+      );
+    }
+
+    return client;
+  }
+}
+
+let unitOfWork: UnitOfWork | null = null;
+
+/**
+ * Get the shared UnitOfWork
+ */
+export const getUnitOfWork = (): UnitOfWork => {
+  if (!unitOfWork) {
+    unitOfWork = new UnitOfWork();
+  }
+
+  return unitOfWork;
+};
@@ -0,0 +1,29 @@
+import { eq } from 'drizzle-orm';
+import { BaseRepository } from './base.repository';
+import { userProfiles, UserProfileRow } from '../db/schema';
+import { IUpdateUserProfileRequest } from '../models/user-profile.types';
+
+export class UserProfileRepository extends BaseRepository {
+  async findByUserId(userId: string): Promise<UserProfileRow | null> {
+    const [profile] = await this.readDb
+      .select()
+      .from(userProfiles)
+      .where(eq(userProfiles.userId, userId))
+      .limit(1);
+
+    return profile ?? null;
+  }
+
+  async upsert(userId: string, data: IUpdateUserProfileRequest): Promise<UserProfileRow> {
+    const [profile] = await this.writeDb
+      .insert(userProfiles)
+      .values({ userId, ...data })
+      .onConflictDoUpdate({
+        target: userProfiles.userId,
+        set: { ...data, updatedAt: new Date() },
+      })
+      .returning();
+
+    return profile;
+  }
+}
@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import { RoleController } from '../controllers/role.controller';
+import { AuditController } from '../controllers/audit.controller';
+import { ActivityController } from '../controllers/activity.controller';
+import { getRoleService } from '../services/role.service';
+import { getAuditService } from '../services/audit.service';
+import { getActivityService } from '../services/activity.service';
+import { requireAuth } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/authorization.middleware';
+import { validate } from '../middleware/validation.middleware';
+import { grantRoleSchema, revokeRoleParamsSchema, userRoleParamsSchema } from '../validators/rbac.validator';
+import { auditQuerySchema } from '../validators/audit.validator';
+import { activityParamsSchema, activityQuerySchema } from '../validators/activity.validator';
+import { PERMISSIONS } from '../models/rbac.types';
+
+const router = Router();
+
+const roleController = new RoleController(getRoleService());
+const auditController = new AuditController(getAuditService());
+const activityController = new ActivityController(getActivityService());
+
+// Every admin route requires an authenticated caller
+router.use(requireAuth);
+
+router.get(
+  '/roles',
+  requirePermission(PERMISSIONS.ROLES_READ),
+  (req, res) => roleController.listRoles(req, res)
+);
+router.get(
+  '/users/:userId/roles',
+  requirePermission(PERMISSIONS.ROLES_READ),
+  validate({ params: userRoleParamsSchema }),
+  (req, res) => roleController.getUserRoles(req, res)
+);
+router.post(
+  '/users/:userId/roles',
+  requirePermission(PERMISSIONS.ROLES_MANAGE),
+  validate({ params: userRoleParamsSchema, body: grantRoleSchema }),
+  (req, res) => roleController.grantRole(req, res)
+);
+router.delete(
+  '/users/:userId/roles/:role',
+  requirePermission(PERMISSIONS.ROLES_MANAGE),
+  validate({ params: revokeRoleParamsSchema }),
+  (req, res) => roleController.revokeRole(req, res)
+);
+router.get(
+  '/users/:userId/activity',
+  requirePermission(PERMISSIONS.USERS_READ),
+  validate({ params: activityParamsSchema, query: activityQuerySchema }),
+  (req, res) => activityController.getUserActivity(req, res)
+);
+router.get(
+  '/audit',
+  requirePermission(PERMISSIONS.AUDIT_READ),
+  validate({ query: auditQuerySchema }),
+  (req, res) => auditController.query(req, res)
+);
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { ApiKeyController } from '../controllers/api-key.controller';
+import { getApiKeyService } from '../services/api-key.service';
+import { requireSession } from '../middleware/auth.middleware';
+import { validate } from '../middleware/validation.middleware';
+import { apiKeyParamsSchema, createApiKeySchema } from '../validators/api-key.validator';
+
+const router = Router();
+
+const apiKeyController = new ApiKeyController(getApiKeyService());
+
+// Keys are managed with a signed-in session; a key cannot mint or revoke keys
+router.use(requireSession);
+
+router.get('/', (req, res) => apiKeyController.list(req, res));
+router.post('/', validate({ body: createApiKeySchema }), (req, res) => apiKeyController.create(req, res));
+router.delete('/:id', validate({ params: apiKeyParamsSchema }), (req, res) => apiKeyController.revoke(req, res));
+
+export default router;
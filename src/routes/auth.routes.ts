@@ -1,18 +1,57 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/auth.controller';
-import { AuthService } from '../services/auth.service';
-import { AuthRepository } from '../repositories/auth.repository';
-import { requireAuth } from '../middleware/auth.middleware';
+import { TwoFactorController } from '../controllers/two-factor.controller';
+import { getAuthService } from '../services/auth.service';
+import { getTwoFactorService } from '../services/two-factor.service';
+import { requireSession } from '../middleware/auth.middleware';
+import { validate } from '../middleware/validation.middleware';
+import { authRateLimit } from '../middleware/rate-limit.middleware';
+import {
+  signUpSchema,
+  signInSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  sendVerificationSchema,
+  verifyEmailSchema,
+  sessionParamsSchema,
+  refreshSchema,
+} from '../validators/auth.validator';
+import { oauthCompleteQuerySchema, oauthProviderParamsSchema } from '../validators/oauth.validator';
+import { twoFactorCodeSchema, twoFactorDisableSchema, twoFactorVerifySchema } from '../validators/two-factor.validator';
 
 const router = Router();
 
-const authRepository = new AuthRepository();
-const authService = new AuthService(authRepository);
-const authController = new AuthController(authService);
+const authController = new AuthController(getAuthService());
+const twoFactorController = new TwoFactorController(getTwoFactorService());
 
-router.post('/signup', (req, res) => authController.signUp(req, res));
-router.post('/signin', (req, res) => authController.signIn(req, res));
-router.get('/profile', requireAuth, (req, res) => authController.getProfile(req, res));
-router.post('/signout', requireAuth, (req, res) => authController.signOut(req, res));
+router.post('/signup', validate({ body: signUpSchema }), ...authRateLimit('signup'), (req, res) => authController.signUp(req, res));
+router.post('/signin', validate({ body: signInSchema }), ...authRateLimit('signin'), (req, res) => authController.signIn(req, res));
+router.post('/2fa/verify', validate({ body: twoFactorVerifySchema }), ...authRateLimit('2fa-verify'), (req, res) => authController.verifyTwoFactor(req, res));
+router.post('/refresh', validate({ body: refreshSchema }), ...authRateLimit('refresh'), (req, res) => authController.refresh(req, res));
+router.post('/forgot-password', validate({ body: forgotPasswordSchema }), ...authRateLimit('forgot-password'), (req, res) => authController.forgotPassword(req, res));
+router.post('/reset-password', validate({ body: resetPasswordSchema }), ...authRateLimit('reset-password'), (req, res) => authController.resetPassword(req, res));
+router.post('/send-verification', validate({ body: sendVerificationSchema }), ...authRateLimit('send-verification'), (req, res) => authController.sendVerification(req, res));
+// GET serves the link from the verification email; POST is for clients that extract the token
+router.get('/verify-email', validate({ query: verifyEmailSchema }), ...authRateLimit('verify-email'), (req, res) => authController.verifyEmail(req, res));
+router.post('/verify-email', validate({ body: verifyEmailSchema }), ...authRateLimit('verify-email'), (req, res) => authController.verifyEmail(req, res));
+router.get('/profile', requireSession, (req, res) => authController.getProfile(req, res));
+router.post('/signout', requireSession, (req, res) => authController.signOut(req, res));
+router.get('/sessions', requireSession, (req, res) => authController.listSessions(req, res));
+// Registered before /sessions/:id so "others" is not taken for a session id
+router.delete('/sessions/others', requireSession, (req, res) => authController.revokeOtherSessions(req, res));
+router.delete('/sessions/:id', requireSession, validate({ params: sessionParamsSchema }), (req, res) => authController.revokeSession(req, res));
+
+// Social sign-in: start redirects to the provider, which returns through
+// better-auth's callback to /oauth/complete
+router.get('/oauth/providers', (req, res) => authController.listOAuthProviders(req, res));
+router.get('/oauth/complete', validate({ query: oauthCompleteQuerySchema }), (req, res) => authController.completeOAuth(req, res));
+router.get('/oauth/:provider', validate({ params: oauthProviderParamsSchema }), ...authRateLimit('oauth'), (req, res) => authController.startOAuth(req, res));
+
+// Two-factor enrollment for the signed-in user
+router.get('/2fa', requireSession, (req, res) => twoFactorController.getStatus(req, res));
+router.post('/2fa/enroll', requireSession, (req, res) => twoFactorController.enroll(req, res));
+// Both check a code, so they share the '2fa' counters against guessing
+router.post('/2fa/enroll/verify', requireSession, validate({ body: twoFactorCodeSchema }), ...authRateLimit('2fa'), (req, res) => twoFactorController.confirmEnrollment(req, res));
+router.post('/2fa/disable', requireSession, validate({ body: twoFactorDisableSchema }), ...authRateLimit('2fa'), (req, res) => twoFactorController.disable(req, res));
 
 export default router;
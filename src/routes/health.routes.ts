@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { HealthController } from '../controllers/health.controller';
+import { HealthService } from '../services/health.service';
+import { getConnectionManager } from '../config/database';
+import { getMongoConnectionManager } from '../config/mongodb';
+import { getMigrationService } from '../services/migration.service';
+import { checkAuth } from '../config/auth.config';
+
+const router = Router();
+
+const healthService = new HealthService(getConnectionManager(), getMongoConnectionManager(), getMigrationService(), checkAuth);
+const healthController = new HealthController(healthService);
+
+router.get('/', (req, res) => healthController.getLiveness(req, res));
+router.get('/live', (req, res) => healthController.getLiveness(req, res));
+router.get('/ready', (req, res) => healthController.getReadiness(req, res));
+
+export default router;
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { MetricsController } from '../controllers/metrics.controller';
+import { getMetricsService } from '../services/metrics.service';
+import { requireBasicAuth } from '../middleware/basic-auth.middleware';
+import { config } from '../config/app.config';
+
+const router = Router();
+
+const metricsController = new MetricsController(getMetricsService());
+
+if (config.metrics.username && config.metrics.password) {
+  router.use(requireBasicAuth(config.metrics.username, config.metrics.password, 'metrics'));
+}
+
+router.get('/', (req, res) => metricsController.getMetrics(req, res));
+
+export default router;
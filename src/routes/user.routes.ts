@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { UserProfileController } from '../controllers/user-profile.controller';
+import { ActivityController } from '../controllers/activity.controller';
+import { UserProfileService } from '../services/user-profile.service';
+import { getActivityService } from '../services/activity.service';
+import { UserProfileRepository } from '../repositories/user-profile.repository';
+import { requireSession } from '../middleware/auth.middleware';
+import { validate } from '../middleware/validation.middleware';
+import { updateUserProfileSchema } from '../validators/user-profile.validator';
+import { activityQuerySchema } from '../validators/activity.validator';
+
+const router = Router();
+
+const userProfileRepository = new UserProfileRepository();
+const userProfileService = new UserProfileService(userProfileRepository);
+const userProfileController = new UserProfileController(userProfileService);
+const activityController = new ActivityController(getActivityService());
+
+// The caller's own account: sessions only, since an API key's scopes say nothing about it
+router.get('/me', requireSession, (req, res) => userProfileController.getMe(req, res));
+router.patch('/me', requireSession, validate({ body: updateUserProfileSchema }), (req, res) => userProfileController.updateMe(req, res));
+router.get('/me/activity', requireSession, validate({ query: activityQuerySchema }), (req, res) => activityController.getMyActivity(req, res));
+
+export default router;
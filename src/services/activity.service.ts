@@ -0,0 +1,91 @@
+import { ActivityRepository } from '../repositories/activity.repository';
+import { config } from '../config/app.config';
+import {
+  ActivityConfig,
+  IActivityEvent,
+  IActivityQuery,
+  IActivityRepository,
+  IActivitySummary,
+} from '../models/activity.types';
+import { ServiceUnavailableError } from '../models/error.types';
+import { DatabaseError } from '../models/database.types';
+import { categorizeMongoError } from '../config/mongodb';
+import { BatchWriter } from '../utils/batch-writer';
+import logger from '../config/logger.config';
+
+const log = logger.child({ component: 'activity' });
+
+const DEFAULT_DAYS = 7;
+const DEFAULT_LIMIT = 20;
+const TOP_ROUTES_LIMIT = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ActivityService {
+  private writer: BatchWriter<IActivityEvent>;
+
+  constructor(
+    private activityRepository: IActivityRepository,
+    private config: ActivityConfig
+  ) {
+    this.writer = new BatchWriter((batch) => this.activityRepository.insertMany(batch), config, log);
+  }
+
+  /**
+   * Queue an event; never throws, so tracking cannot fail a request
+   */
+  record(event: IActivityEvent): void {
+    this.writer.push(event);
+  }
+
+  /**
+   * Write queued events; called on shutdown
+   */
+  async flush(): Promise<void> {
+    await this.writer.flush();
+  }
+
+  /**
+   * A user's recent requests, with requests per day and top routes over the
+   * last `days` days
+   * 
+   * Events still queued for writing are not included yet.
+   * 
+   * @throws {ServiceUnavailableError} If activity tracking is disabled
+   * @throws {DatabaseError} If MongoDB cannot be reached
+   */
+  async getSummary(userId: string, query: IActivityQuery): Promise<IActivitySummary> {
+    if (!this.config.enabled) {
+      throw new ServiceUnavailableError('mongodb', 'Activity tracking is disabled');
+    }
+
+    const days = query.days ?? DEFAULT_DAYS;
+    const since = new Date(Date.now() - days * DAY_MS);
+
+    try {
+      const [recent, requestsPerDay, topRoutes] = await Promise.all([
+        this.activityRepository.findRecent(userId, query.limit ?? DEFAULT_LIMIT),
+        this.activityRepository.countByDay(userId, since),
+        this.activityRepository.topRoutes(userId, since, TOP_ROUTES_LIMIT),
+      ]);
+
+      return { userId, since, recent, requestsPerDay, topRoutes };
+    } catch (error) {
+      // Driver errors become DatabaseErrors, which the error handler maps to 503/500
+      throw error instanceof Error && !(error instanceof DatabaseError) ? categorizeMongoError(error) : error;
+    }
+  }
+}
+
+let activityService: ActivityService | null = null;
+
+/**
+ * Get the shared ActivityService
+ */
+export const getActivityService = (): ActivityService => {
+  if (!activityService) {
+    activityService = new ActivityService(new ActivityRepository(config.activity.retentionDays), config.activity);
+  }
+
+  return activityService;
+};
@@ -0,0 +1,153 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { ApiKeyRepository } from '../repositories/api-key.repository';
+import { AuthRepository } from '../repositories/auth.repository';
+import { getRoleService, RoleService } from './role.service';
+import { AuditService, getAuditService } from './audit.service';
+import {
+  IApiKeyAuthentication,
+  IApiKeyDto,
+  ICreateApiKeyRequest,
+  ICreateApiKeyResponse,
+} from '../models/api-key.types';
+import { AUDIT_EVENTS } from '../models/audit.types';
+import { AuthenticationError, ForbiddenError, NotFoundError } from '../models/error.types';
+import { toApiKeyDto } from '../utils/api-key.mapper';
+import { generateToken, hashToken } from '../utils/token';
+import logger from '../config/logger.config';
+
+const log = logger.child({ component: 'api-key' });
+
+/** `ak_<8 hex prefix>_<43 char base64url secret>` */
+const API_KEY_PATTERN = /^(ak_[0-9a-f]{8})_[A-Za-z0-9_-]{43}$/;
+
+/** lastUsedAt is only written when older than this, to avoid a write per request */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ApiKeyService {
+  constructor(
+    private apiKeyRepository: ApiKeyRepository,
+    private authRepository: AuthRepository,
+    private roleService: RoleService,
+    private auditService: AuditService
+  ) {}
+
+  /**
+   * Create a key for a user
+   * 
+   * A key can only carry permissions its owner holds, so it never grants more
+   * than signing in would.
+   * 
+   * @throws {ForbiddenError} INVALID_SCOPE if a scope is not held by the user
+   */
+  async create(userId: string, data: ICreateApiKeyRequest): Promise<ICreateApiKeyResponse> {
+    const scopes = [...new Set(data.scopes)];
+    const { permissions } = await this.roleService.getUserAuthorization(userId);
+    const notHeld = scopes.filter((scope) => !permissions.includes(scope));
+
+    if (notHeld.length > 0) {
+      const forbidden = new ForbiddenError(`Cannot grant permissions you do not hold: ${notHeld.join(', ')}`, 'INVALID_SCOPE');
+      this.auditService.recordFailure(AUDIT_EVENTS.API_KEY_CREATE, forbidden, { actorId: userId, metadata: { scopes } });
+      throw forbidden;
+    }
+
+    const prefix = `ak_${randomBytes(4).toString('hex')}`;
+    const key = `${prefix}_${generateToken(32)}`;
+    const row = await this.apiKeyRepository.create({
+      userId,
+      name: data.name,
+      prefix,
+      keyHash: hashToken(key),
+      scopes,
+      expiresAt: data.expiresInDays ? new Date(Date.now() + data.expiresInDays * DAY_MS) : null,
+    });
+
+    log.info({ apiKeyId: row.id, prefix, scopes }, 'API key created');
+    this.auditService.record({
+      type: AUDIT_EVENTS.API_KEY_CREATE,
+      outcome: 'success',
+      actorId: userId,
+      targetId: row.id,
+      metadata: { prefix, scopes },
+    });
+
+    return { apiKey: toApiKeyDto(row), key };
+  }
+
+  async list(userId: string): Promise<IApiKeyDto[]> {
+    const rows = await this.apiKeyRepository.findActiveByUserId(userId);
+
+    return rows.map(toApiKeyDto);
+  }
+
+  async revoke(userId: string, id: string): Promise<void> {
+    if (!(await this.apiKeyRepository.revoke(id, userId))) {
+      throw new NotFoundError('API key not found', 'API_KEY_NOT_FOUND');
+    }
+
+    log.info({ apiKeyId: id }, 'API key revoked');
+    this.auditService.record({ type: AUDIT_EVENTS.API_KEY_REVOKE, outcome: 'success', actorId: userId, targetId: id });
+  }
+
+  /**
+   * Resolve the user and effective permissions behind an API key
+   * 
+   * Effective permissions are the key's scopes that the owner still holds, so
+   * removing a role from a user also narrows their keys. Keys carry no roles.
+   * 
+   * @throws {AuthenticationError} INVALID_API_KEY or API_KEY_EXPIRED
+   */
+  async authenticate(key: string): Promise<IApiKeyAuthentication> {
+    const match = API_KEY_PATTERN.exec(key);
+    const row = match ? await this.apiKeyRepository.findByPrefix(match[1]) : null;
+
+    if (!row || row.revokedAt || !timingSafeEqual(Buffer.from(hashToken(key)), Buffer.from(row.keyHash))) {
+      throw new AuthenticationError('Unauthorized: Invalid API key', 'INVALID_API_KEY');
+    }
+
+    if (row.expiresAt && row.expiresAt.getTime() <= Date.now()) {
+      throw new AuthenticationError('Unauthorized: API key has expired', 'API_KEY_EXPIRED');
+    }
+
+    const [user, { permissions }] = await Promise.all([
+      this.authRepository.findUserById(row.userId),
+      this.roleService.getUserAuthorization(row.userId),
+    ]);
+
+    if (!user) {
+      throw new AuthenticationError('Unauthorized: Invalid API key', 'INVALID_API_KEY');
+    }
+
+    if (!row.lastUsedAt || Date.now() - row.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      this.apiKeyRepository.touch(row.id).catch((error) => log.warn({ err: error }, 'Failed to record API key use'));
+    }
+
+    return {
+      user,
+      apiKeyId: row.id,
+      authorization: {
+        roles: [],
+        permissions: row.scopes.filter((scope) => permissions.includes(scope)),
+      },
+    };
+  }
+}
+
+let apiKeyService: ApiKeyService | null = null;
+
+/**
+ * Get the shared ApiKeyService
+ */
+export const getApiKeyService = (): ApiKeyService => {
+  if (!apiKeyService) {
+    apiKeyService = new ApiKeyService(
+      new ApiKeyRepository(),
+      new AuthRepository(),
+      getRoleService(),
+      getAuditService()
+    );
+  }
+
+  return apiKeyService;
+};
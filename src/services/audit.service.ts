@@ -0,0 +1,125 @@
+import { randomUUID } from 'node:crypto';
+import { AuditRepository } from '../repositories/audit.repository';
+import { MongoAuditRepository } from '../repositories/mongo-audit.repository';
+import { config } from '../config/app.config';
+import {
+  AuditConfig,
+  AuditEventType,
+  IAuditEvent,
+  IAuditEventInput,
+  IAuditPage,
+  IAuditQuery,
+  IAuditRepository,
+} from '../models/audit.types';
+import { AppError } from '../models/error.types';
+import { getRequestContext } from '../utils/request-context';
+import { BatchWriter } from '../utils/batch-writer';
+import { authEvents } from '../utils/metrics';
+import logger from '../config/logger.config';
+
+const log = logger.child({ component: 'audit' });
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Records security-relevant events without slowing down or failing the request
+ * that caused them
+ * 
+ * Events are stamped with the request's id, client address and user agent,
+ * and written in batches by a BatchWriter.
+ */
+export class AuditService {
+  private writer: BatchWriter<IAuditEvent>;
+
+  constructor(
+    private auditRepository: IAuditRepository,
+    config: AuditConfig
+  ) {
+    this.writer = new BatchWriter((batch) => this.auditRepository.append(batch), config, log);
+  }
+
+  /**
+   * Queue an event and count it in auth_events_total; never throws
+   */
+  record(input: IAuditEventInput): void {
+    const context = getRequestContext();
+
+    authEvents.inc({ event: input.type, outcome: input.outcome });
+
+    this.writer.push({
+      id: randomUUID(),
+      type: input.type,
+      outcome: input.outcome,
+      actorId: input.actorId !== undefined ? input.actorId : context?.userId ?? null,
+      targetId: input.targetId ?? null,
+      ipAddress: context?.ipAddress ?? null,
+      userAgent: context?.userAgent ?? null,
+      requestId: context?.requestId ?? null,
+      metadata: input.metadata ?? {},
+      occurredAt: new Date(),
+    });
+  }
+
+  /**
+   * Record a failed action, taking the error code from the error when it has one
+   */
+  recordFailure(
+    type: AuditEventType,
+    error: unknown,
+    details: Omit<IAuditEventInput, 'type' | 'outcome'> = {}
+  ): void {
+    this.record({
+      ...details,
+      type,
+      outcome: 'failure',
+      metadata: { ...details.metadata, code: error instanceof AppError ? error.code : 'INTERNAL_ERROR' },
+    });
+  }
+
+  /**
+   * Write queued events; called on shutdown
+   */
+  async flush(): Promise<void> {
+    await this.writer.flush();
+  }
+
+  /**
+   * One page of events matching the query, newest first
+   */
+  async query(query: IAuditQuery): Promise<IAuditPage> {
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? DEFAULT_PAGE_SIZE;
+
+    const { events, total } = await this.auditRepository.find(
+      {
+        type: query.type,
+        outcome: query.outcome,
+        actorId: query.actorId,
+        targetId: query.targetId,
+        from: query.from ? new Date(query.from) : undefined,
+        to: query.to ? new Date(query.to) : undefined,
+      },
+      pageSize,
+      (page - 1) * pageSize
+    );
+
+    return { events, page, pageSize, total };
+  }
+}
+
+let auditService: AuditService | null = null;
+
+/**
+ * Get the shared AuditService, backed by the store selected in AUDIT_STORE
+ */
+export const getAuditService = (): AuditService => {
+  if (!auditService) {
+    const repository = config.audit.store === 'mongo'
+      ? new MongoAuditRepository()
+      : new AuditRepository();
+
+    auditService = new AuditService(repository, config.audit);
+  }
+
+  return auditService;
+};
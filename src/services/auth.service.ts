@@ -1,64 +1,430 @@
 import { AuthRepository } from '../repositories/auth.repository';
-import { ISignUpRequest, ISignInRequest, IAuthResponse } from '../models/auth.types';
+import { ConsumedTokenRepository } from '../repositories/consumed-token.repository';
+import { RefreshTokenRepository } from '../repositories/refresh-token.repository';
+import { getUnitOfWork } from '../repositories/unit-of-work';
+import { getRateLimitService, RateLimitService } from './rate-limit.service';
+import { RefreshTokenService } from './refresh-token.service';
+import { getTwoFactorService, TwoFactorService } from './two-factor.service';
+import { AuditService, getAuditService } from './audit.service';
+import { config } from '../config/app.config';
+import { AuthSession, AuthSessionRecord, AuthUser } from '../config/auth.config';
+import {
+  ISignUpRequest,
+  ISignInRequest,
+  IAuthResponse,
+  IForgotPasswordRequest,
+  IResetPasswordRequest,
+  ISendVerificationRequest,
+  IActiveSessionDto,
+  IRevokeSessionsResponse,
+  IRefreshRequest,
+} from '../models/auth.types';
+import { IClientInfo } from '../models/session.types';
+import { ITwoFactorChallengeResponse, ITwoFactorVerifyRequest } from '../models/two-factor.types';
+import { IOAuthProvider, IOAuthStartResult } from '../models/oauth.types';
+import { AUDIT_EVENTS, AuditEventType } from '../models/audit.types';
+import { AppError, AuthenticationError, NotFoundError, ValidationError } from '../models/error.types';
+import { toActiveSessionDto, toAuthResponse } from '../utils/auth.mapper';
+import { traceMethods } from '../utils/tracing';
+import logger from '../config/logger.config';
+
+const log = logger.child({ component: 'auth' });
 
 export class AuthService {
-  constructor(private authRepository: AuthRepository) {}
+  constructor(
+    private authRepository: AuthRepository,
+    private rateLimitService: RateLimitService,
+    private consumedTokenRepository: ConsumedTokenRepository,
+    private refreshTokenService: RefreshTokenService,
+    private twoFactorService: TwoFactorService,
+    private auditService: AuditService
+  ) {
+    traceMethods(this, 'AuthService');
+  }
 
   async signUp(data: ISignUpRequest): Promise<IAuthResponse> {
-    const { email, password, name } = data;
+    const { email, password } = data;
+    // better-auth requires a name; fall back to the local part of the email
+    const name = data.name || email.split('@')[0];
 
-    if (!email || !password) {
-      throw new Error('Email and password are required');
+    try {
+      const result = await this.authRepository.createUser(email, password, name);
+      log.info({ userId: result.user.id }, 'User signed up');
+      this.auditService.record({ type: AUDIT_EVENTS.SIGN_UP, outcome: 'success', actorId: result.user.id });
+
+      return this.buildAuthResponse(result.user, result.token);
+    } catch (error) {
+      this.logFailure('Sign up failed', error);
+      this.auditService.recordFailure(AUDIT_EVENTS.SIGN_UP, error, { actorId: null, metadata: { email } });
+      throw error;
     }
+  }
 
-    if (password.length < 8) {
-      throw new Error('Password must be at least 8 characters long');
+  /**
+   * Check the password and open a session, or a two-factor challenge when the
+   * user has 2FA enabled
+   */
+  async signIn(data: ISignInRequest): Promise<IAuthResponse | ITwoFactorChallengeResponse> {
+    const { email, password } = data;
+
+    try {
+      // Inside the try so lockout rejections are audited too
+      await this.rateLimitService.assertSignInAllowed(email);
+
+      const result = await this.authRepository.authenticateUser(email, password);
+      await this.rateLimitService.clearFailedSignIns(email);
+
+      return this.completeSignIn(result.user, result.token, AUDIT_EVENTS.SIGN_IN);
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        await this.rateLimitService.recordFailedSignIn(email);
+      }
+      this.logFailure('Sign in failed', error);
+      this.auditService.recordFailure(AUDIT_EVENTS.SIGN_IN, error, { actorId: null, metadata: { email } });
+      throw error;
     }
+  }
 
-    const result = await this.authRepository.createUser(email, password, name);
-    
-    return this.formatAuthResponse(result);
+  /**
+   * Enabled OAuth/OIDC providers
+   */
+  listOAuthProviders(): IOAuthProvider[] {
+    return config.oauth.providers;
   }
 
-  async signIn(data: ISignInRequest): Promise<IAuthResponse> {
-    const { email, password } = data;
+  /**
+   * Begin a social sign-in; the provider redirects back through better-auth's
+   * callback to GET /api/auth/oauth/complete
+   */
+  async startOAuth(providerId: string): Promise<IOAuthStartResult> {
+    const provider = config.oauth.providers.find((candidate) => candidate.id === providerId);
+
+    if (!provider) {
+      throw new NotFoundError(`Unknown OAuth provider: ${providerId}`, 'OAUTH_PROVIDER_NOT_FOUND');
+    }
+
+    return this.authRepository.startOAuth(provider, `${config.oauth.apiUrl}/api/auth/oauth/complete`);
+  }
+
+  /**
+   * Turn the cookie session better-auth created in the OAuth callback into the
+   * API's usual sign-in response
+   * 
+   * @param error - Error code better-auth appended to the callback URL, if any
+   */
+  async completeOAuth(cookie: string, error?: string): Promise<IAuthResponse | ITwoFactorChallengeResponse> {
+    if (error) {
+      log.warn({ error }, 'OAuth sign-in failed');
+      this.auditService.record({
+        type: AUDIT_EVENTS.OAUTH_SIGN_IN,
+        outcome: 'failure',
+        actorId: null,
+        metadata: { code: 'OAUTH_FAILED', error },
+      });
+      throw new AuthenticationError(`OAuth sign-in failed: ${error}`, 'OAUTH_FAILED');
+    }
+
+    const sessionData = cookie ? await this.authRepository.getSessionFromCookies(cookie) : null;
+
+    if (!sessionData) {
+      const missing = new AuthenticationError('OAuth sign-in did not complete', 'OAUTH_SESSION_MISSING');
+      this.auditService.recordFailure(AUDIT_EVENTS.OAUTH_SIGN_IN, missing, { actorId: null });
+      throw missing;
+    }
+
+    return this.completeSignIn(sessionData.user, sessionData.session.token, AUDIT_EVENTS.OAUTH_SIGN_IN);
+  }
+
+  /**
+   * Finish a sign-in that returned a two-factor challenge
+   */
+  async verifyTwoFactor(data: ITwoFactorVerifyRequest, client: IClientInfo): Promise<IAuthResponse> {
+    try {
+      const userId = await this.twoFactorService.verifyChallenge(data);
+      const user = await this.authRepository.findUserById(userId);
+
+      if (!user) {
+        throw new AuthenticationError('Two-factor challenge is invalid or has expired', 'INVALID_CHALLENGE');
+      }
 
-    if (!email || !password) {
-      throw new Error('Email and password are required');
+      const session = await this.authRepository.createSession(user.id, client);
+      const refreshToken = await this.refreshTokenService.issue(user.id, session.token);
+      log.info({ userId: user.id }, 'User signed in');
+      this.auditService.record({ type: AUDIT_EVENTS.TWO_FACTOR_VERIFY, outcome: 'success', actorId: user.id });
+
+      return toAuthResponse(user, session, refreshToken);
+    } catch (error) {
+      this.logFailure('Two-factor verification failed', error);
+      this.auditService.recordFailure(AUDIT_EVENTS.TWO_FACTOR_VERIFY, error, { actorId: null });
+      throw error;
     }
+  }
+
+  /**
+   * Exchange a refresh token for a new session and refresh token
+   */
+  async refresh(data: IRefreshRequest, client: IClientInfo): Promise<IAuthResponse> {
+    try {
+      const { user, session, refreshToken } = await this.refreshTokenService.rotate(data.refreshToken, client);
+      this.auditService.record({ type: AUDIT_EVENTS.SESSION_REFRESH, outcome: 'success', actorId: user.id });
 
-    const result = await this.authRepository.authenticateUser(email, password);
-    
-    return this.formatAuthResponse(result);
+      return toAuthResponse(user, session, refreshToken);
+    } catch (error) {
+      this.logFailure('Session refresh failed', error);
+      // Includes REFRESH_TOKEN_REUSED, the signal of a stolen refresh token
+      this.auditService.recordFailure(AUDIT_EVENTS.SESSION_REFRESH, error, { actorId: null });
+      throw error;
+    }
   }
 
-  async getSession(sessionToken: string): Promise<any> {
+  /**
+   * Look up a usable session
+   * 
+   * @returns null for unknown and expired sessions, and for sessions still
+   *   waiting for a second factor
+   */
+  async getSession(sessionToken: string): Promise<AuthSession | null> {
     if (!sessionToken) {
-      throw new Error('Session token is required');
+      throw new AuthenticationError('Session token is required', 'TOKEN_MISSING');
     }
 
-    return await this.authRepository.getUserBySession(sessionToken);
+    const sessionData = await this.authRepository.getUserBySession(sessionToken);
+
+    if (sessionData && (await this.twoFactorService.isSessionPending(sessionData.session.token))) {
+      log.warn({ userId: sessionData.user.id }, 'Session used before two-factor verification');
+      return null;
+    }
+
+    return sessionData;
   }
 
   async signOut(sessionToken: string): Promise<void> {
     if (!sessionToken) {
-      throw new Error('Session token is required');
+      throw new AuthenticationError('Session token is required', 'TOKEN_MISSING');
     }
 
+    // Its refresh tokens are revoked by the session delete hook in auth.config
     await this.authRepository.signOut(sessionToken);
+    log.info('User signed out');
+    this.auditService.record({ type: AUDIT_EVENTS.SIGN_OUT, outcome: 'success' });
   }
 
-  private formatAuthResponse(result: any): IAuthResponse {
-    return {
-      user: {
-        id: result.user.id,
-        email: result.user.email,
-        name: result.user.name,
-      },
-      session: {
-        token: result.session.token,
-        expiresAt: new Date(result.session.expiresAt),
-      },
-    };
+  /**
+   * The caller's active sessions, most recently used first
+   */
+  async listSessions(current: AuthSessionRecord): Promise<IActiveSessionDto[]> {
+    const sessions = await this.authRepository.listSessions(current.token);
+
+    return sessions
+      .map((session) => toActiveSessionDto(session, current.id))
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+  }
+
+  /**
+   * Revoke one of the caller's sessions by id
+   * 
+   * Clients only ever see session ids, never other sessions' tokens, so the id
+   * is resolved against the caller's own sessions. Revoking the current session
+   * is allowed and behaves like sign-out.
+   */
+  async revokeSession(current: AuthSessionRecord, sessionId: string): Promise<void> {
+    const sessions = await this.authRepository.listSessions(current.token);
+    const target = sessions.find((session) => session.id === sessionId);
+
+    if (!target) {
+      throw new NotFoundError('Session not found', 'SESSION_NOT_FOUND');
+    }
+
+    await this.authRepository.revokeSession(current.token, target.token);
+    log.info({ sessionId }, 'Session revoked');
+    this.auditService.record({ type: AUDIT_EVENTS.SESSION_REVOKE, outcome: 'success', metadata: { sessionId } });
+  }
+
+  /**
+   * Sign out every device except the one making the request
+   */
+  async revokeOtherSessions(current: AuthSessionRecord): Promise<IRevokeSessionsResponse> {
+    const sessions = await this.authRepository.listSessions(current.token);
+    await this.authRepository.revokeOtherSessions(current.token);
+    // Also covers refresh tokens of sessions that already expired, which the
+    // session delete hook leaves alone
+    await this.refreshTokenService.revokeForUser(current.userId, current.token);
+
+    const revoked = sessions.filter((session) => session.id !== current.id).length;
+    log.info({ revoked }, 'Other sessions revoked');
+    this.auditService.record({ type: AUDIT_EVENTS.SESSIONS_REVOKE_OTHERS, outcome: 'success', metadata: { revoked } });
+
+    return { revoked };
+  }
+
+  /**
+   * Start a password reset
+   * 
+   * Resolves the same way whether or not the email belongs to an account so the
+   * endpoint cannot be used to discover registered addresses.
+   */
+  async forgotPassword(data: IForgotPasswordRequest): Promise<void> {
+    try {
+      await this.authRepository.requestPasswordReset(data.email);
+      log.info('Password reset requested');
+      this.auditService.record({
+        type: AUDIT_EVENTS.PASSWORD_RESET_REQUEST,
+        outcome: 'success',
+        metadata: { email: data.email },
+      });
+    } catch (error) {
+      this.logFailure('Password reset request failed', error);
+      this.auditService.recordFailure(AUDIT_EVENTS.PASSWORD_RESET_REQUEST, error, { metadata: { email: data.email } });
+      throw error;
+    }
+  }
+
+  /**
+   * Set a new password from a reset token
+   * 
+   * better-auth deletes the token on use and revokes the user's other sessions.
+   */
+  async resetPassword(data: IResetPasswordRequest): Promise<void> {
+    try {
+      await this.authRepository.resetPassword(data.token, data.newPassword);
+      log.info('Password reset completed');
+      this.auditService.record({ type: AUDIT_EVENTS.PASSWORD_RESET, outcome: 'success' });
+    } catch (error) {
+      this.logFailure('Password reset failed', error);
+      // better-auth reports a bad, expired or already-used token as a plain 400
+      const failure = error instanceof ValidationError
+        ? new AppError('Reset link is invalid or has expired', 400, 'INVALID_TOKEN')
+        : error;
+      this.auditService.recordFailure(AUDIT_EVENTS.PASSWORD_RESET, failure);
+      throw failure;
+    }
+  }
+
+  async sendVerification(data: ISendVerificationRequest): Promise<void> {
+    try {
+      await this.authRepository.sendVerificationEmail(data.email);
+      log.info('Verification email requested');
+      this.auditService.record({
+        type: AUDIT_EVENTS.EMAIL_VERIFICATION_REQUEST,
+        outcome: 'success',
+        metadata: { email: data.email },
+      });
+    } catch (error) {
+      this.logFailure('Verification email request failed', error);
+      this.auditService.recordFailure(AUDIT_EVENTS.EMAIL_VERIFICATION_REQUEST, error, { metadata: { email: data.email } });
+      throw error;
+    }
+  }
+
+  /**
+   * Mark an email address as verified
+   * 
+   * better-auth's verification tokens are stateless JWTs that stay valid until
+   * they expire, so each one is claimed before use to make it single-use. The
+   * claim is released if verification fails, leaving the link usable after a
+   * transient error.
+   */
+  async verifyEmail(token: string): Promise<void> {
+    const expiresAt = new Date(Date.now() + config.mail.emailVerificationTokenTtl * 1000);
+    const claimed = await this.consumedTokenRepository.claim(token, 'email-verification', expiresAt);
+
+    if (!claimed) {
+      log.warn('Verification link reused');
+      const reused = new AuthenticationError('Verification link has already been used', 'TOKEN_ALREADY_USED');
+      this.auditService.recordFailure(AUDIT_EVENTS.EMAIL_VERIFY, reused);
+      throw reused;
+    }
+
+    try {
+      await this.authRepository.verifyEmail(token);
+      log.info('Email verified');
+      this.auditService.record({ type: AUDIT_EVENTS.EMAIL_VERIFY, outcome: 'success' });
+    } catch (error) {
+      await this.consumedTokenRepository.release(token);
+      this.logFailure('Email verification failed', error);
+      const failure = error instanceof AuthenticationError
+        ? new AuthenticationError('Verification link is invalid or has expired', 'INVALID_TOKEN')
+        : error;
+      this.auditService.recordFailure(AUDIT_EVENTS.EMAIL_VERIFY, failure);
+      throw failure;
+    }
+  }
+
+  /**
+   * Hand out the session better-auth opened, or swap it for a two-factor
+   * challenge when the user has 2FA enabled
+   */
+  private async completeSignIn(
+    user: AuthUser,
+    token: string,
+    type: AuditEventType
+  ): Promise<IAuthResponse | ITwoFactorChallengeResponse> {
+    if (await this.twoFactorService.isEnabled(user.id)) {
+      // The first factor alone must not yield a usable session
+      await this.authRepository.deleteSession(token);
+      log.info({ userId: user.id }, 'Two-factor challenge issued');
+      this.auditService.record({
+        type: AUDIT_EVENTS.TWO_FACTOR_CHALLENGE,
+        outcome: 'success',
+        actorId: user.id,
+        metadata: { via: type },
+      });
+
+      return this.twoFactorService.createChallenge(user.id);
+    }
+
+    log.info({ userId: user.id }, 'User signed in');
+    this.auditService.record({ type, outcome: 'success', actorId: user.id });
+
+    return this.buildAuthResponse(user, token);
+  }
+
+  private logFailure(msg: string, error: unknown): void {
+    if (error instanceof AppError && error.statusCode < 500) {
+      log.warn({ code: error.code }, msg);
+    } else {
+      log.error({ err: error }, msg);
+    }
+  }
+
+  /**
+   * better-auth's sign-in/sign-up results carry only the session token, so the
+   * session is looked up to report its expiry. Each new session starts a fresh
+   * refresh token family.
+   */
+  private async buildAuthResponse(user: AuthUser, token: string | null): Promise<IAuthResponse> {
+    const sessionData = token ? await this.authRepository.getUserBySession(token) : null;
+
+    if (!sessionData) {
+      return toAuthResponse(user, null, null);
+    }
+
+    const refreshToken = await this.refreshTokenService.issue(user.id, sessionData.session.token);
+
+    return toAuthResponse(user, sessionData.session, refreshToken);
   }
 }
+
+let authService: AuthService | null = null;
+
+/**
+ * Get the shared AuthService
+ * 
+ * Used by both the auth routes and requireAuth so that they share one set of
+ * repositories and services.
+ */
+export const getAuthService = (): AuthService => {
+  if (!authService) {
+    const authRepository = new AuthRepository();
+    authService = new AuthService(
+      authRepository,
+      getRateLimitService(),
+      new ConsumedTokenRepository(),
+      new RefreshTokenService(new RefreshTokenRepository(), authRepository, getUnitOfWork(), config.session),
+      getTwoFactorService(),
+      getAuditService()
+    );
+  }
+
+  return authService;
+};
@@ -0,0 +1,103 @@
+import {
+  AuthHealthResult,
+  IConnectionManager,
+  DatabaseHealthResult,
+  LivenessResult,
+  PoolStats,
+  SystemHealthResult
+} from '../models/database.types';
+import { IMongoConnectionManager } from '../models/mongodb.types';
+import { ISchemaHealthResult } from '../models/migration.types';
+import { MigrationService } from './migration.service';
+
+const DB_HEALTH_CHECK_TIMEOUT = 2000; // 2 seconds
+
+export class HealthService {
+  constructor(
+    private connectionManager: IConnectionManager,
+    private mongoConnectionManager: IMongoConnectionManager,
+    private migrationService: MigrationService,
+    private checkAuth: () => AuthHealthResult
+  ) {}
+
+  getLiveness(): LivenessResult {
+    return {
+      status: 'ok',
+      uptime: process.uptime(),
+      timestamp: new Date(),
+    };
+  }
+
+  async getReadiness(): Promise<SystemHealthResult> {
+    const [database, mongodb] = await Promise.all([
+      this.checkDatabase(this.connectionManager),
+      this.mongoConnectionManager.isConfigured() ? this.checkDatabase(this.mongoConnectionManager) : undefined,
+    ]);
+    const migrations: ISchemaHealthResult = database.connected
+      ? await this.migrationService.getSchemaHealth()
+      : { upToDate: false, pending: 0, error: 'Database unavailable' };
+    const auth: AuthHealthResult = database.connected
+      ? this.checkAuth()
+      : { ready: false, error: 'Database unavailable' };
+
+    return {
+      status: this.resolveStatus(database, migrations, auth, mongodb),
+      database,
+      ...(mongodb && { mongodb }),
+      migrations,
+      auth,
+      timestamp: new Date(),
+    };
+  }
+
+  private async checkDatabase(manager: IConnectionManager | IMongoConnectionManager): Promise<DatabaseHealthResult> {
+    const probe = await manager.ping(DB_HEALTH_CHECK_TIMEOUT);
+    const status = manager.getConnectionStatus();
+
+    return {
+      ...probe,
+      connected: probe.connected && status.connected,
+      reconnecting: status.reconnecting,
+      error: probe.error || (status.connected ? undefined : status.lastError),
+      lastConnectedAt: status.lastConnectedAt,
+      ...(status.replicas && { replicas: status.replicas }),
+    };
+  }
+
+  /**
+   * PostgreSQL is required to serve requests; MongoDB only holds logs and
+   * analytics, so losing it degrades the instance without taking it out of
+   * rotation. Serving against a schema that is behind the code would fail
+   * requests, so pending migrations also take it out, as does better-auth not
+   * being initialized. Reads fail over to the primary when a replica is down,
+   * so that only degrades the instance.
+   */
+  private resolveStatus(
+    database: DatabaseHealthResult,
+    migrations: ISchemaHealthResult,
+    auth: AuthHealthResult,
+    mongodb?: DatabaseHealthResult
+  ): SystemHealthResult['status'] {
+    if (!database.connected || database.reconnecting || !migrations.upToDate || !auth.ready) {
+      return 'unhealthy';
+    }
+
+    if (mongodb && (!mongodb.connected || mongodb.reconnecting)) {
+      return 'degraded';
+    }
+
+    if (database.replicas?.some((replica) => !replica.connected)) {
+      return 'degraded';
+    }
+
+    if (database.pool && this.isPoolSaturated(database.pool)) {
+      return 'degraded';
+    }
+
+    return 'healthy';
+  }
+
+  private isPoolSaturated(pool: PoolStats): boolean {
+    return pool.waiting > 0 || (pool.total >= pool.max && pool.idle === 0);
+  }
+}
@@ -0,0 +1,91 @@
+import { config } from '../config/app.config';
+import logger from '../config/logger.config';
+import { IMailMessage, IMailTransport, MailConfig } from '../models/mail.types';
+import { ConsoleMailTransport } from '../mailers/console.transport';
+import { FileMailTransport } from '../mailers/file.transport';
+import { SmtpMailTransport } from '../mailers/smtp.transport';
+
+const log = logger.child({ component: 'mail' });
+
+interface IMailRecipient {
+  email: string;
+  name?: string | null;
+}
+
+export class MailService {
+  constructor(
+    private transport: IMailTransport,
+    private config: MailConfig
+  ) {}
+
+  async sendPasswordReset(user: IMailRecipient, token: string): Promise<void> {
+    const link = `${this.config.appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+    const minutes = Math.round(this.config.passwordResetTokenTtl / 60);
+
+    await this.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: [
+        `Hi ${user.name || 'there'},`,
+        '',
+        'We received a request to reset your password. Use the link below to choose a new one:',
+        link,
+        '',
+        `The link expires in ${minutes} minutes and can be used once.`,
+        'If you did not request this, you can ignore this email.',
+      ].join('\n'),
+    });
+  }
+
+  async sendEmailVerification(user: IMailRecipient, token: string): Promise<void> {
+    const link = `${this.config.apiUrl}/api/auth/verify-email?token=${encodeURIComponent(token)}`;
+    const hours = Math.round(this.config.emailVerificationTokenTtl / 3600);
+
+    await this.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: [
+        `Hi ${user.name || 'there'},`,
+        '',
+        'Please confirm your email address by opening the link below:',
+        link,
+        '',
+        `The link expires in ${hours} hours.`,
+      ].join('\n'),
+    });
+  }
+
+  private async send(message: IMailMessage): Promise<void> {
+    try {
+      await this.transport.send({ ...message, from: this.config.from });
+      log.info({ transport: this.transport.name, subject: message.subject }, 'Email sent');
+    } catch (error) {
+      log.error({ err: error, transport: this.transport.name, subject: message.subject }, 'Email delivery failed');
+      throw error;
+    }
+  }
+}
+
+function createTransport(config: MailConfig): IMailTransport {
+  switch (config.transport) {
+    case 'smtp':
+      return new SmtpMailTransport(config.smtp);
+    case 'file':
+      return new FileMailTransport(config.fileDirectory);
+    default:
+      return new ConsoleMailTransport();
+  }
+}
+
+let mailService: MailService | null = null;
+
+/**
+ * Get the shared MailService, using the transport selected in MAIL_TRANSPORT
+ */
+export const getMailService = (): MailService => {
+  if (!mailService) {
+    mailService = new MailService(createTransport(config.mail), config.mail);
+  }
+
+  return mailService;
+};
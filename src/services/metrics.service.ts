@@ -0,0 +1,93 @@
+import { Gauge } from 'prom-client';
+import { getConnectionManager } from '../config/database';
+import { getMongoConnectionManager } from '../config/mongodb';
+import { IConnectionManager } from '../models/database.types';
+import { IMongoConnectionManager } from '../models/mongodb.types';
+import { metricsRegistry } from '../utils/metrics';
+
+/**
+ * Exposes the metrics registry in Prometheus text format
+ * 
+ * Adds gauges that are read from the connection managers at scrape time, so
+ * they always reflect the current pool and connection state.
+ */
+export class MetricsService {
+  constructor(
+    private connectionManager: IConnectionManager,
+    private mongoConnectionManager: IMongoConnectionManager
+  ) {
+    this.registerDatabaseGauges();
+  }
+
+  get contentType(): string {
+    return metricsRegistry.contentType;
+  }
+
+  async render(): Promise<string> {
+    return metricsRegistry.metrics();
+  }
+
+  private registerDatabaseGauges(): void {
+    const connectionManager = this.connectionManager;
+    const mongoConnectionManager = this.mongoConnectionManager;
+
+    new Gauge<'state'>({
+      name: 'db_pool_connections',
+      help: 'PostgreSQL primary pool clients by state',
+      labelNames: ['state'],
+      registers: [metricsRegistry],
+      collect() {
+        const stats = connectionManager.getPoolStats();
+
+        this.set({ state: 'total' }, stats?.total ?? 0);
+        this.set({ state: 'idle' }, stats?.idle ?? 0);
+        this.set({ state: 'waiting' }, stats?.waiting ?? 0);
+      },
+    });
+
+    new Gauge({
+      name: 'db_pool_max_connections',
+      help: 'PostgreSQL primary pool size limit',
+      registers: [metricsRegistry],
+      collect() {
+        this.set(connectionManager.getPoolStats()?.max ?? 0);
+      },
+    });
+
+    new Gauge<'database' | 'role' | 'url'>({
+      name: 'db_up',
+      help: 'Connected databases (1 up, 0 down); one series per replica',
+      labelNames: ['database', 'role', 'url'],
+      registers: [metricsRegistry],
+      collect() {
+        const status = connectionManager.getConnectionStatus();
+
+        this.reset();
+        this.set({ database: 'postgres', role: 'primary' }, status.connected ? 1 : 0);
+
+        for (const replica of status.replicas ?? []) {
+          this.set({ database: 'postgres', role: 'replica', url: replica.databaseUrl }, replica.connected ? 1 : 0);
+        }
+
+        if (mongoConnectionManager.isConfigured()) {
+          this.set({ database: 'mongodb', role: 'primary' }, mongoConnectionManager.isConnected() ? 1 : 0);
+        }
+      },
+    });
+  }
+}
+
+let metricsService: MetricsService | null = null;
+
+/**
+ * Get the shared MetricsService
+ * 
+ * Gauges can only be registered once, so there must be a single instance.
+ */
+export const getMetricsService = (): MetricsService => {
+  if (!metricsService) {
+    metricsService = new MetricsService(getConnectionManager(), getMongoConnectionManager());
+  }
+
+  return metricsService;
+};
@@ -0,0 +1,306 @@
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { Pool, PoolClient } from 'pg';
+import { drizzle } from 'drizzle-orm/node-postgres';
+import { migrate } from 'drizzle-orm/node-postgres/migrator';
+import { getConnectionManager } from '../config/database';
+import { config } from '../config/app.config';
+import { DatabaseError, IConnectionManager } from '../models/database.types';
+import {
+  IMigrationInfo,
+  IMigrationRunResult,
+  IMigrationStatus,
+  ISchemaHealthResult,
+  MigrationConfig,
+} from '../models/migration.types';
+import logger from '../config/logger.config';
+
+const log = logger.child({ component: 'migrations' });
+
+/** Where drizzle-kit and drizzle's migrator record applied migrations */
+const MIGRATIONS_TABLE = '"drizzle"."__drizzle_migrations"';
+
+/** Application-wide key for the migration advisory lock */
+const MIGRATION_LOCK_KEY = 7318457102;
+
+/** SQLSTATE lock_not_available, raised when lock_timeout expires */
+const LOCK_NOT_AVAILABLE = '55P03';
+
+interface JournalEntry {
+  tag: string;
+  when: number;
+}
+
+/**
+ * Applies the SQL migrations generated by drizzle-kit and reports schema state
+ * 
+ * Uses the same bookkeeping table as `drizzle-kit migrate`, so the two are
+ * interchangeable. As in drizzle, a migration counts as applied when its
+ * journal timestamp is not newer than the latest recorded one.
+ * 
+ * `up` and `baseline` hold a session-level advisory lock for their whole run,
+ * so instances starting at the same time apply migrations once: the others wait
+ * for the lock, then find nothing pending.
+ */
+export class MigrationService {
+  /** Once current, the schema cannot fall behind while this process runs */
+  private schemaCurrent = false;
+
+  /** prepareSchema run in progress, shared by startup and readiness checks */
+  private preparing: Promise<void> | null = null;
+
+  constructor(
+    private connectionManager: IConnectionManager,
+    private config: MigrationConfig
+  ) {}
+
+  async status(): Promise<IMigrationStatus> {
+    return this.statusWith(this.getPool());
+  }
+
+  /**
+   * Apply all pending migrations in a single transaction
+   */
+  async up(): Promise<IMigrationRunResult> {
+    return this.withLock(async (client) => {
+      const { pending } = await this.statusWith(client);
+
+      if (pending.length === 0) {
+        log.info('Database schema is up to date');
+        return { migrated: [] };
+      }
+
+      log.info({ pending: pending.map((migration) => migration.tag) }, 'Applying migrations');
+      await migrate(drizzle(client), { migrationsFolder: this.config.migrationsFolder });
+      this.schemaCurrent = true;
+      log.info({ applied: pending.length }, 'Migrations applied');
+
+      return { migrated: pending };
+    });
+  }
+
+  /**
+   * Record pending migrations as applied without running them
+   * 
+   * For databases whose schema was created another way, e.g. with
+   * `drizzle-kit push`, so that `up` does not try to create existing tables.
+   * 
+   * @param toTag - Last migration to mark; defaults to all pending migrations
+   * @throws {Error} If toTag is not a pending migration
+   */
+  async baseline(toTag?: string): Promise<IMigrationRunResult> {
+    return this.withLock(async (client) => {
+      const { pending } = await this.statusWith(client);
+      const end = toTag ? pending.findIndex((migration) => migration.tag === toTag) + 1 : pending.length;
+
+      if (toTag && end === 0) {
+        throw new Error(`Migration '${toTag}' is not pending`);
+      }
+
+      const marked = pending.slice(0, end);
+
+      if (marked.length === 0) {
+        return { migrated: [] };
+      }
+
+      // Same DDL as drizzle's migrator, for a database it has never touched
+      await client.query('CREATE SCHEMA IF NOT EXISTS "drizzle"');
+      await client.query(
+        `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (id SERIAL PRIMARY KEY, hash text NOT NULL, created_at bigint)`
+      );
+
+      await client.query('BEGIN');
+      try {
+        for (const migration of marked) {
+          await client.query(
+            `INSERT INTO ${MIGRATIONS_TABLE} ("hash", "created_at") VALUES ($1, $2)`,
+            [migration.hash, migration.createdAt]
+          );
+        }
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+
+      log.warn({ baselined: marked.map((migration) => migration.tag) }, 'Migrations marked as applied without running');
+
+      return { migrated: marked };
+    });
+  }
+
+  /**
+   * Bring the schema up to date at startup, or warn that it is behind
+   * 
+   * Applies migrations only when DB_MIGRATE_ON_STARTUP is set. If the database
+   * is not reachable at startup, readiness checks call this again once it is.
+   */
+  async prepareSchema(): Promise<void> {
+    if (!this.preparing) {
+      this.preparing = this.runPrepareSchema().finally(() => {
+        this.preparing = null;
+      });
+    }
+
+    await this.preparing;
+  }
+
+  private async runPrepareSchema(): Promise<void> {
+    if (this.config.runOnStartup) {
+      await this.up();
+      return;
+    }
+
+    const { pending } = await this.status();
+
+    if (pending.length > 0) {
+      log.warn(
+        { pending: pending.map((migration) => migration.tag) },
+        'Database schema is behind; readiness will fail until migrations are applied (bun run db:migrate or DB_MIGRATE_ON_STARTUP=true)'
+      );
+    } else {
+      this.schemaCurrent = true;
+    }
+  }
+
+  /**
+   * Whether all migrations are applied, for readiness checks
+   * 
+   * Only queries the database until the schema is first found current. With
+   * DB_MIGRATE_ON_STARTUP set, a schema that is behind also starts migrating
+   * in the background, for when the database came up after startup.
+   */
+  async getSchemaHealth(): Promise<ISchemaHealthResult> {
+    if (this.schemaCurrent) {
+      return { upToDate: true, pending: 0 };
+    }
+
+    if (this.config.runOnStartup && !this.preparing) {
+      // Not awaited: a long migration must not time out the check
+      this.prepareSchema().catch((error) => {
+        log.error({ err: error }, 'Database migration failed');
+      });
+    }
+
+    try {
+      const { pending, upToDate } = await this.status();
+      this.schemaCurrent = upToDate;
+
+      return { upToDate, pending: pending.length };
+    } catch (error) {
+      return { upToDate: false, pending: 0, error: error instanceof Error ? error.message : 'Schema check failed' };
+    }
+  }
+
+  private async statusWith(queryable: Pool | PoolClient): Promise<IMigrationStatus> {
+    const migrations = this.readJournal();
+    const lastAppliedAt = await this.lastAppliedAt(queryable);
+
+    const applied = migrations.filter((migration) => lastAppliedAt !== null && migration.createdAt <= lastAppliedAt);
+    const pending = migrations.filter((migration) => lastAppliedAt === null || migration.createdAt > lastAppliedAt);
+
+    return { applied, pending, upToDate: pending.length === 0 };
+  }
+
+  /**
+   * Timestamp of the newest recorded migration, or null on a fresh database
+   */
+  private async lastAppliedAt(queryable: Pool | PoolClient): Promise<number | null> {
+    const { rows: [table] } = await queryable.query<{ name: string | null }>(
+      `SELECT to_regclass('${MIGRATIONS_TABLE}')::text AS name`
+    );
+
+    if (!table.name) {
+      return null;
+    }
+
+    const { rows } = await queryable.query<{ created_at: string }>(
+      `SELECT created_at FROM ${MIGRATIONS_TABLE} ORDER BY created_at DESC LIMIT 1`
+    );
+
+    return rows.length > 0 ? Number(rows[0].created_at) : null;
+  }
+
+  /**
+   * Migrations in the journal, hashed the same way as drizzle
+   */
+  private readJournal(): IMigrationInfo[] {
+    const folder = this.config.migrationsFolder;
+    const journal = JSON.parse(readFileSync(join(folder, 'meta', '_journal.json'), 'utf8')) as { entries: JournalEntry[] };
+
+    return journal.entries.map((entry) => ({
+      tag: entry.tag,
+      createdAt: entry.when,
+      hash: createHash('sha256').update(readFileSync(join(folder, `${entry.tag}.sql`), 'utf8')).digest('hex'),
+    }));
+  }
+
+  /**
+   * Run work on a dedicated connection holding the migration advisory lock
+   * 
+   * @throws {DatabaseError} MIGRATION_LOCK_TIMEOUT if another instance holds
+   *   the lock for longer than lockTimeoutMs
+   */
+  private async withLock<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.getPool().connect();
+    let locked = false;
+
+    try {
+      await client.query("SELECT set_config('lock_timeout', $1, false)", [`${this.config.lockTimeoutMs}ms`]);
+
+      try {
+        await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+        locked = true;
+      } catch (error) {
+        if ((error as { code?: string }).code === LOCK_NOT_AVAILABLE) {
+          throw new DatabaseError(
+            `Timed out after ${this.config.lockTimeoutMs}ms waiting for another instance to finish migrating`,
+            'MIGRATION_LOCK_TIMEOUT',
+            'temporary'
+          );
+        }
+        throw error;
+      } finally {
+        // The timeout is only meant for the lock; migrations may take longer
+        await client.query('RESET lock_timeout');
+      }
+
+      return await work(client);
+    } finally {
+      if (locked) {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]).catch((error) => {
+          log.error({ err: error }, 'Failed to release migration lock');
+        });
+      }
+      client.release();
+    }
+  }
+
+  private getPool(): Pool {
+    const pool = this.connectionManager.getPool();
+
+    if (!pool) {
+      throw new DatabaseError(
+        'Database client not initialized. Ensure ConnectionManager.initializeConnection() is called before running migrations.',
+        'NOT_INITIALIZED',
+        'temporary'
+      );
+    }
+
+    return pool;
+  }
+}
+
+let migrationService: MigrationService | null = null;
+
+/**
+ * Get the shared MigrationService
+ */
+export const getMigrationService = (): MigrationService => {
+  if (!migrationService) {
+    migrationService = new MigrationService(getConnectionManager(), config.migrations);
+  }
+
+  return migrationService;
+};
@@ -0,0 +1,101 @@
+import { config } from '../config/app.config';
+import logger from '../config/logger.config';
+import { RateLimitError } from '../models/error.types';
+import { IRateLimitRepository, RateLimitConfig, RateLimitRule } from '../models/rate-limit.types';
+import { RateLimitRepository } from '../repositories/rate-limit.repository';
+import { MemoryRateLimitRepository } from '../repositories/memory-rate-limit.repository';
+
+const log = logger.child({ component: 'rate-limit' });
+
+const SIGNIN_FAILURE_PREFIX = 'signin-failures';
+
+export class RateLimitService {
+  constructor(
+    private rateLimitRepository: IRateLimitRepository,
+    private config: RateLimitConfig
+  ) {}
+
+  /**
+   * Count a request against a rule
+   * 
+   * @throws {RateLimitError} If the identifier exceeded the rule's limit in the current window
+   */
+  async consume(rule: RateLimitRule, identifier: string): Promise<void> {
+    const record = await this.rateLimitRepository.increment(`${rule.name}:${identifier}`, rule.windowMs);
+
+    if (record.count > rule.max) {
+      log.warn({ rule: rule.name, count: record.count, max: rule.max }, 'Rate limit exceeded');
+      throw new RateLimitError(this.secondsUntil(record.resetAt));
+    }
+  }
+
+  /**
+   * @throws {RateLimitError} If sign-in for the email is currently locked out
+   */
+  async assertSignInAllowed(email: string): Promise<void> {
+    const record = await this.rateLimitRepository.get(this.failureKey(email));
+
+    if (record?.lockedUntil && record.lockedUntil.getTime() > Date.now()) {
+      throw new RateLimitError(
+        this.secondsUntil(record.lockedUntil),
+        'Too many failed sign-in attempts, please try again later',
+        'ACCOUNT_LOCKED'
+      );
+    }
+  }
+
+  /**
+   * Record a failed sign-in and lock the email out once the threshold is reached
+   * 
+   * Every failure past the threshold doubles the lockout duration, up to the
+   * configured maximum.
+   */
+  async recordFailedSignIn(email: string): Promise<void> {
+    const key = this.failureKey(email);
+    const record = await this.rateLimitRepository.increment(key, this.config.lockoutFailureWindowMs);
+
+    if (record.count < this.config.lockoutThreshold) {
+      return;
+    }
+
+    const exponent = record.count - this.config.lockoutThreshold;
+    const lockoutMs = Math.min(this.config.lockoutBaseMs * Math.pow(2, exponent), this.config.lockoutMaxMs);
+    const lockedUntil = new Date(Date.now() + lockoutMs);
+
+    await this.rateLimitRepository.lock(key, lockedUntil);
+
+    log.warn(
+      { failures: record.count, lockoutMs, lockedUntil: lockedUntil.toISOString() },
+      'Sign-in locked out after repeated failures'
+    );
+  }
+
+  async clearFailedSignIns(email: string): Promise<void> {
+    await this.rateLimitRepository.reset(this.failureKey(email));
+  }
+
+  private failureKey(email: string): string {
+    return `${SIGNIN_FAILURE_PREFIX}:${email.toLowerCase()}`;
+  }
+
+  private secondsUntil(date: Date): number {
+    return Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+  }
+}
+
+let rateLimitService: RateLimitService | null = null;
+
+/**
+ * Get the shared RateLimitService, backed by the store selected in RATE_LIMIT_STORE
+ */
+export const getRateLimitService = (): RateLimitService => {
+  if (!rateLimitService) {
+    const repository = config.rateLimit.store === 'postgres'
+      ? new RateLimitRepository()
+      : new MemoryRateLimitRepository();
+
+    rateLimitService = new RateLimitService(repository, config.rateLimit);
+  }
+
+  return rateLimitService;
+};
@@ -0,0 +1,136 @@
+import { randomUUID } from 'crypto';
+import { RefreshTokenRepository } from '../repositories/refresh-token.repository';
+import { AuthRepository } from '../repositories/auth.repository';
+import { UnitOfWork } from '../repositories/unit-of-work';
+import { IAuthSessionDto } from '../models/auth.types';
+import { IClientInfo, IRotatedSession, SessionConfig } from '../models/session.types';
+import { AuthenticationError } from '../models/error.types';
+import { generateToken, hashToken } from '../utils/token';
+import logger from '../config/logger.config';
+
+const log = logger.child({ component: 'refresh-token' });
+
+export class RefreshTokenService {
+  constructor(
+    private refreshTokenRepository: RefreshTokenRepository,
+    private authRepository: AuthRepository,
+    private unitOfWork: UnitOfWork,
+    private config: SessionConfig
+  ) {}
+
+  /**
+   * Issue a refresh token bound to a session
+   * 
+   * @param familyId - Family to continue when rotating; a new family is started
+   *   for a fresh sign-in
+   */
+  async issue(userId: string, sessionToken: string, familyId: string = randomUUID()): Promise<IAuthSessionDto> {
+    return this.createToken(this.refreshTokenRepository, userId, sessionToken, familyId);
+  }
+
+  /**
+   * Exchange a refresh token for a new session and refresh token
+   * 
+   * The presented token and the session it was issued with are retired; the
+   * token is marked rotated in the same transaction that stores its successor. A token
+   * that was already rotated or revoked means it has been copied: the whole
+   * family and every session it issued are revoked, signing out both the
+   * legitimate client and the attacker.
+   * 
+   * @throws {AuthenticationError} INVALID_REFRESH_TOKEN, REFRESH_TOKEN_REVOKED,
+   *   REFRESH_TOKEN_EXPIRED or REFRESH_TOKEN_REUSED
+   */
+  async rotate(token: string, client: IClientInfo): Promise<IRotatedSession> {
+    const record = await this.refreshTokenRepository.findByHash(hashToken(token));
+
+    if (!record) {
+      throw new AuthenticationError('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
+    }
+
+    if (record.revokedAt) {
+      throw new AuthenticationError('Refresh token has been revoked', 'REFRESH_TOKEN_REVOKED');
+    }
+
+    if (record.rotatedAt) {
+      await this.handleReuse(record.userId, record.familyId);
+    }
+
+    if (record.expiresAt.getTime() <= Date.now()) {
+      throw new AuthenticationError('Refresh token has expired', 'REFRESH_TOKEN_EXPIRED');
+    }
+
+    const user = await this.authRepository.findUserById(record.userId);
+
+    if (!user) {
+      await this.revokeFamily(record.familyId);
+      throw new AuthenticationError('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
+    }
+
+    // better-auth's session writes cannot join the transaction, so the new
+    // session is opened first and deleted again if the rotation does not commit
+    const session = await this.authRepository.createSession(user.id, client);
+    let refreshToken: IAuthSessionDto | null;
+
+    try {
+      refreshToken = await this.unitOfWork.run(async (tx) => {
+        const refreshTokens = this.refreshTokenRepository.withTransaction(tx);
+
+        // Lost the race against a concurrent refresh with the same token
+        if (!(await refreshTokens.markRotated(record.id))) {
+          return null;
+        }
+
+        return this.createToken(refreshTokens, user.id, session.token, record.familyId);
+      });
+    } catch (error) {
+      await this.authRepository.deleteSession(session.token);
+      throw error;
+    }
+
+    if (!refreshToken) {
+      await this.authRepository.deleteSession(session.token);
+      return this.handleReuse(record.userId, record.familyId);
+    }
+
+    await this.authRepository.deleteSession(record.sessionToken);
+    log.info({ userId: user.id, familyId: record.familyId }, 'Refresh token rotated');
+
+    return { user, session, refreshToken };
+  }
+
+  async revokeForUser(userId: string, exceptSessionToken?: string): Promise<void> {
+    await this.refreshTokenRepository.revokeByUser(userId, exceptSessionToken);
+  }
+
+  private async createToken(
+    repository: RefreshTokenRepository,
+    userId: string,
+    sessionToken: string,
+    familyId: string
+  ): Promise<IAuthSessionDto> {
+    const token = generateToken(48);
+    const expiresAt = new Date(Date.now() + this.config.refreshTokenTtl * 1000);
+
+    await repository.create({
+      familyId,
+      userId,
+      tokenHash: hashToken(token),
+      sessionToken,
+      expiresAt,
+    });
+
+    return { token, expiresAt };
+  }
+
+  private async handleReuse(userId: string, familyId: string): Promise<never> {
+    await this.revokeFamily(familyId);
+    log.warn({ userId, familyId }, 'Refresh token reuse detected, family revoked');
+    throw new AuthenticationError('Refresh token has already been used', 'REFRESH_TOKEN_REUSED');
+  }
+
+  private async revokeFamily(familyId: string): Promise<void> {
+    const sessionTokens = await this.refreshTokenRepository.revokeFamily(familyId);
+
+    await Promise.all(sessionTokens.map((sessionToken) => this.authRepository.deleteSession(sessionToken)));
+  }
+}
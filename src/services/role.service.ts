@@ -0,0 +1,133 @@
+import { RoleRepository } from '../repositories/role.repository';
+import { AuthRepository } from '../repositories/auth.repository';
+import { AuditService, getAuditService } from './audit.service';
+import { IRole, IUserAuthorization, IUserRole, ROLES } from '../models/rbac.types';
+import { AUDIT_EVENTS } from '../models/audit.types';
+import { ConflictError, ForbiddenError, NotFoundError } from '../models/error.types';
+import logger from '../config/logger.config';
+
+const log = logger.child({ component: 'rbac' });
+
+export class RoleService {
+  constructor(
+    private roleRepository: RoleRepository,
+    private authRepository: AuthRepository,
+    private auditService: AuditService
+  ) {}
+
+  async listRoles(): Promise<IRole[]> {
+    return this.roleRepository.findAll();
+  }
+
+  async getUserRoles(userId: string): Promise<IUserRole[]> {
+    return this.roleRepository.findUserRoles(userId);
+  }
+
+  async getUserAuthorization(userId: string): Promise<IUserAuthorization> {
+    const [userRoles, permissions] = await Promise.all([
+      this.roleRepository.findUserRoles(userId),
+      this.roleRepository.findUserPermissions(userId),
+    ]);
+
+    return {
+      roles: userRoles.map((role) => role.name),
+      permissions,
+    };
+  }
+
+  async grantRole(userId: string, roleName: string, grantedBy: string): Promise<IUserRole[]> {
+    // user_roles has no foreign key to better-auth's user table
+    if (!(await this.authRepository.findUserById(userId))) {
+      throw new NotFoundError('User not found', 'USER_NOT_FOUND');
+    }
+
+    const role = await this.findRoleOrThrow(roleName);
+    const assigned = await this.roleRepository.assignToUser(userId, role.id, grantedBy);
+
+    if (!assigned) {
+      throw new ConflictError(`User already has role '${roleName}'`, 'ROLE_ALREADY_ASSIGNED');
+    }
+
+    log.info({ targetUserId: userId, role: roleName, grantedBy }, 'Role granted');
+    this.auditService.record({
+      type: AUDIT_EVENTS.ROLE_GRANT,
+      outcome: 'success',
+      actorId: grantedBy,
+      targetId: userId,
+      metadata: { role: roleName },
+    });
+
+    return this.roleRepository.findUserRoles(userId);
+  }
+
+  /**
+   * Give a new account the default 'user' role
+   * 
+   * Skipped with a warning when the role has not been seeded, so sign-up keeps
+   * working on a database without the RBAC migrations.
+   */
+  async assignDefaultRole(userId: string): Promise<void> {
+    const role = await this.roleRepository.findByName(ROLES.USER);
+
+    if (!role) {
+      log.warn({ userId, role: ROLES.USER }, 'Default role missing, not assigned');
+      return;
+    }
+
+    await this.roleRepository.assignToUser(userId, role.id, null);
+    this.auditService.record({
+      type: AUDIT_EVENTS.ROLE_GRANT,
+      outcome: 'success',
+      actorId: null,
+      targetId: userId,
+      metadata: { role: ROLES.USER },
+    });
+  }
+
+  async revokeRole(userId: string, roleName: string, revokedBy: string): Promise<IUserRole[]> {
+    if (userId === revokedBy && roleName === ROLES.ADMIN) {
+      throw new ForbiddenError('Administrators cannot revoke their own admin role', 'SELF_REVOKE_FORBIDDEN');
+    }
+
+    const role = await this.findRoleOrThrow(roleName);
+    const removed = await this.roleRepository.removeFromUser(userId, role.id);
+
+    if (!removed) {
+      throw new NotFoundError(`User does not have role '${roleName}'`, 'ROLE_NOT_ASSIGNED');
+    }
+
+    log.info({ targetUserId: userId, role: roleName, revokedBy }, 'Role revoked');
+    this.auditService.record({
+      type: AUDIT_EVENTS.ROLE_REVOKE,
+      outcome: 'success',
+      actorId: revokedBy,
+      targetId: userId,
+      metadata: { role: roleName },
+    });
+
+    return this.roleRepository.findUserRoles(userId);
+  }
+
+  private async findRoleOrThrow(roleName: string) {
+    const role = await this.roleRepository.findByName(roleName);
+
+    if (!role) {
+      throw new NotFoundError(`Role '${roleName}' does not exist`, 'ROLE_NOT_FOUND');
+    }
+
+    return role;
+  }
+}
+
+let roleService: RoleService | null = null;
+
+/**
+ * Get the shared RoleService
+ */
+export const getRoleService = (): RoleService => {
+  if (!roleService) {
+    roleService = new RoleService(new RoleRepository(), new AuthRepository(), getAuditService());
+  }
+
+  return roleService;
+};
@@ -0,0 +1,271 @@
+import { randomBytes } from 'crypto';
+import { TwoFactorRepository } from '../repositories/two-factor.repository';
+import { getUnitOfWork, UnitOfWork } from '../repositories/unit-of-work';
+import { AuditService, getAuditService } from './audit.service';
+import { AuthSessionRecord, AuthUser } from '../config/auth.config';
+import { TwoFactorRow } from '../db/schema';
+import {
+  ITwoFactorChallengeResponse,
+  ITwoFactorEnrollmentResponse,
+  ITwoFactorStatusResponse,
+  ITwoFactorVerifyRequest,
+  TwoFactorConfig,
+} from '../models/two-factor.types';
+import {
+  AuthenticationError,
+  ConflictError,
+  InvalidTwoFactorCodeError,
+  NotFoundError,
+  ValidationError,
+} from '../models/error.types';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../utils/totp';
+import { decrypt, deriveKey, encrypt } from '../utils/encryption';
+import { generateToken, hashToken } from '../utils/token';
+import { AUDIT_EVENTS } from '../models/audit.types';
+import { config } from '../config/app.config';
+import logger from '../config/logger.config';
+
+const log = logger.child({ component: 'two-factor' });
+
+/**
+ * Recovery codes are shown as `xxxxx-xxxxx`; case, spaces and dashes are
+ * ignored when one is entered
+ */
+const normalizeRecoveryCode = (code: string): string => code.toLowerCase().replace(/[^0-9a-f]/g, '');
+
+const generateRecoveryCode = (): string => {
+  const hex = randomBytes(5).toString('hex');
+  return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+};
+
+export class TwoFactorService {
+  private readonly encryptionKey: Buffer;
+
+  constructor(
+    private twoFactorRepository: TwoFactorRepository,
+    private unitOfWork: UnitOfWork,
+    private config: TwoFactorConfig,
+    private auditService: AuditService
+  ) {
+    this.encryptionKey = deriveKey(config.encryptionKey);
+  }
+
+  async getStatus(userId: string): Promise<ITwoFactorStatusResponse> {
+    return { enabled: await this.isEnabled(userId) };
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const enrollment = await this.twoFactorRepository.findByUserId(userId);
+
+    return enrollment?.enabled ?? false;
+  }
+
+  /**
+   * Start enrollment with a new secret and recovery codes
+   * 
+   * Nothing changes for sign-in until confirmEnrollment succeeds. Calling this
+   * again before confirming replaces the pending secret.
+   */
+  async enroll(user: AuthUser): Promise<ITwoFactorEnrollmentResponse> {
+    if (await this.isEnabled(user.id)) {
+      throw new ConflictError('Two-factor authentication is already enabled', 'TWO_FACTOR_ALREADY_ENABLED');
+    }
+
+    const secret = generateTotpSecret();
+    const recoveryCodes = Array.from({ length: this.config.recoveryCodeCount }, generateRecoveryCode);
+
+    const encryptedSecret = encrypt(secret, this.encryptionKey);
+    const recoveryCodeHashes = recoveryCodes.map((code) => hashToken(normalizeRecoveryCode(code)));
+
+    await this.unitOfWork.run(async (tx) => {
+      const twoFactorRepository = this.twoFactorRepository.withTransaction(tx);
+
+      await twoFactorRepository.savePending(user.id, encryptedSecret);
+      await twoFactorRepository.replaceRecoveryCodes(user.id, recoveryCodeHashes);
+    });
+    log.info({ userId: user.id }, 'Two-factor enrollment started');
+
+    return {
+      otpauthUri: buildOtpauthUri(this.config.issuer, user.email, secret),
+      secret,
+      recoveryCodes,
+    };
+  }
+
+  /**
+   * Enable 2FA once the user shows their authenticator produces valid codes
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<ITwoFactorStatusResponse> {
+    const enrollment = await this.twoFactorRepository.findByUserId(userId);
+
+    if (!enrollment) {
+      throw new NotFoundError('No pending two-factor enrollment', 'TWO_FACTOR_NOT_ENROLLED');
+    }
+    if (enrollment.enabled) {
+      throw new ConflictError('Two-factor authentication is already enabled', 'TWO_FACTOR_ALREADY_ENABLED');
+    }
+    if (!(await this.verifyTotpCode(enrollment, code))) {
+      throw new InvalidTwoFactorCodeError();
+    }
+
+    await this.twoFactorRepository.enable(userId);
+    log.info({ userId }, 'Two-factor authentication enabled');
+    this.auditService.record({ type: AUDIT_EVENTS.TWO_FACTOR_ENABLE, outcome: 'success', actorId: userId });
+
+    return { enabled: true };
+  }
+
+  async disable(userId: string, data: Omit<ITwoFactorVerifyRequest, 'challengeToken'>): Promise<ITwoFactorStatusResponse> {
+    this.assertFactorProvided(data);
+    const enrollment = await this.twoFactorRepository.findByUserId(userId);
+
+    if (!enrollment?.enabled) {
+      throw new NotFoundError('Two-factor authentication is not enabled', 'TWO_FACTOR_NOT_ENABLED');
+    }
+    if (!(await this.verifySecondFactor(enrollment, data))) {
+      const invalid = new InvalidTwoFactorCodeError();
+      this.auditService.recordFailure(AUDIT_EVENTS.TWO_FACTOR_DISABLE, invalid, { actorId: userId });
+      throw invalid;
+    }
+
+    await this.twoFactorRepository.remove(userId);
+    log.info({ userId }, 'Two-factor authentication disabled');
+    this.auditService.record({ type: AUDIT_EVENTS.TWO_FACTOR_DISABLE, outcome: 'success', actorId: userId });
+
+    return { enabled: false };
+  }
+
+  /**
+   * Open a pending sign-in for a user who passed the password check
+   */
+  async createChallenge(userId: string): Promise<ITwoFactorChallengeResponse> {
+    const challengeToken = generateToken();
+    const expiresAt = new Date(Date.now() + this.config.challengeTtl * 1000);
+
+    await this.twoFactorRepository.createChallenge(hashToken(challengeToken), userId, expiresAt);
+
+    return { twoFactorRequired: true, challengeToken, expiresAt };
+  }
+
+  /**
+   * Hold a session opened by a first factor alone until the second factor is verified
+   * 
+   * Called for every session better-auth opens, so a social sign-in cannot skip
+   * the challenge. Does nothing for users without 2FA.
+   */
+  async holdSession(session: Pick<AuthSessionRecord, 'token' | 'userId' | 'expiresAt'>): Promise<void> {
+    if (await this.isEnabled(session.userId)) {
+      await this.twoFactorRepository.createPendingSession(session.token, session.userId, session.expiresAt);
+      log.info({ userId: session.userId }, 'Session held for two-factor verification');
+    }
+  }
+
+  /**
+   * Whether a session is still waiting for its second factor and must be rejected
+   */
+  async isSessionPending(sessionToken: string): Promise<boolean> {
+    return this.twoFactorRepository.isSessionPending(sessionToken);
+  }
+
+  /**
+   * Forget a held session once better-auth has deleted it
+   */
+  async releaseSession(sessionToken: string): Promise<void> {
+    await this.twoFactorRepository.deletePendingSession(sessionToken);
+  }
+
+  /**
+   * Complete a pending sign-in with an authenticator or recovery code
+   * 
+   * Each challenge allows a limited number of wrong codes and is deleted once it
+   * succeeds, so it cannot be used to open a second session.
+   * 
+   * @returns The id of the user signing in
+   * @throws {AuthenticationError} INVALID_CHALLENGE or CHALLENGE_ATTEMPTS_EXCEEDED
+   * @throws {InvalidTwoFactorCodeError} If the code is wrong
+   */
+  async verifyChallenge(data: ITwoFactorVerifyRequest): Promise<string> {
+    this.assertFactorProvided(data);
+    const tokenHash = hashToken(data.challengeToken);
+    const challenge = await this.twoFactorRepository.findChallenge(tokenHash);
+
+    if (!challenge || challenge.expiresAt.getTime() <= Date.now()) {
+      throw new AuthenticationError('Two-factor challenge is invalid or has expired', 'INVALID_CHALLENGE');
+    }
+
+    const attempts = await this.twoFactorRepository.incrementChallengeAttempts(tokenHash);
+    if (attempts > this.config.maxChallengeAttempts) {
+      await this.twoFactorRepository.deleteChallenge(tokenHash);
+      log.warn({ userId: challenge.userId }, 'Two-factor challenge attempts exceeded');
+      throw new AuthenticationError('Too many invalid codes, sign in again', 'CHALLENGE_ATTEMPTS_EXCEEDED');
+    }
+
+    const enrollment = await this.twoFactorRepository.findByUserId(challenge.userId);
+    if (!enrollment?.enabled || !(await this.verifySecondFactor(enrollment, data))) {
+      throw new InvalidTwoFactorCodeError();
+    }
+
+    if (!(await this.twoFactorRepository.deleteChallenge(tokenHash))) {
+      throw new AuthenticationError('Two-factor challenge is invalid or has expired', 'INVALID_CHALLENGE');
+    }
+
+    return challenge.userId;
+  }
+
+  private async verifySecondFactor(
+    enrollment: TwoFactorRow,
+    data: Pick<ITwoFactorVerifyRequest, 'code' | 'recoveryCode'>
+  ): Promise<boolean> {
+    if (data.code) {
+      return this.verifyTotpCode(enrollment, data.code);
+    }
+
+    if (data.recoveryCode) {
+      const consumed = await this.twoFactorRepository.consumeRecoveryCode(
+        enrollment.userId,
+        hashToken(normalizeRecoveryCode(data.recoveryCode))
+      );
+      if (consumed) {
+        log.info({ userId: enrollment.userId }, 'Recovery code used');
+      }
+      return consumed;
+    }
+
+    return false;
+  }
+
+  private assertFactorProvided(data: Pick<ITwoFactorVerifyRequest, 'code' | 'recoveryCode'>): void {
+    if (!data.code && !data.recoveryCode) {
+      throw new ValidationError('Validation failed', [
+        { location: 'body', field: 'code', message: 'code or recoveryCode is required' },
+      ]);
+    }
+  }
+
+  /**
+   * A code is accepted once; reusing it inside its 30 second window fails
+   */
+  private async verifyTotpCode(enrollment: TwoFactorRow, code: string): Promise<boolean> {
+    const step = verifyTotp(decrypt(enrollment.secret, this.encryptionKey), code);
+
+    return step !== null && this.twoFactorRepository.recordUsedStep(enrollment.userId, step);
+  }
+}
+
+let twoFactorService: TwoFactorService | null = null;
+
+/**
+ * Get the shared TwoFactorService
+ */
+export const getTwoFactorService = (): TwoFactorService => {
+  if (!twoFactorService) {
+    twoFactorService = new TwoFactorService(
+      new TwoFactorRepository(),
+      getUnitOfWork(),
+      config.twoFactor,
+      getAuditService()
+    );
+  }
+
+  return twoFactorService;
+};
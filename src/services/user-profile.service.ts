@@ -0,0 +1,71 @@
+import { UserProfileRepository } from '../repositories/user-profile.repository';
+import {
+  IUserProfile,
+  IUpdateUserProfileRequest,
+  IUserProfileResponse,
+} from '../models/user-profile.types';
+import { ValidationError } from '../models/error.types';
+import { AuthUser } from '../config/auth.config';
+import { toAuthUserDto } from '../utils/auth.mapper';
+
+const PROFILE_FIELDS: (keyof IUpdateUserProfileRequest)[] = [
+  'displayName',
+  'avatarUrl',
+  'locale',
+  'timezone',
+];
+
+export class UserProfileService {
+  constructor(private userProfileRepository: UserProfileRepository) {}
+
+  async getProfile(user: AuthUser): Promise<IUserProfileResponse> {
+    const profile = await this.userProfileRepository.findByUserId(user.id);
+
+    return {
+      user: toAuthUserDto(user),
+      profile: profile ?? this.emptyProfile(user.id),
+    };
+  }
+
+  async updateProfile(
+    user: AuthUser,
+    data: IUpdateUserProfileRequest
+  ): Promise<IUserProfileResponse> {
+    const changes = this.pickProfileFields(data);
+
+    if (Object.keys(changes).length === 0) {
+      throw new ValidationError(`At least one of ${PROFILE_FIELDS.join(', ')} is required`);
+    }
+
+    const profile = await this.userProfileRepository.upsert(user.id, changes);
+
+    return {
+      user: toAuthUserDto(user),
+      profile,
+    };
+  }
+
+  private pickProfileFields(data: IUpdateUserProfileRequest): IUpdateUserProfileRequest {
+    const changes: IUpdateUserProfileRequest = {};
+
+    for (const field of PROFILE_FIELDS) {
+      if (data[field] !== undefined) {
+        changes[field] = data[field];
+      }
+    }
+
+    return changes;
+  }
+
+  private emptyProfile(userId: string): IUserProfile {
+    return {
+      userId,
+      displayName: null,
+      avatarUrl: null,
+      locale: null,
+      timezone: null,
+      createdAt: null,
+      updatedAt: null,
+    };
+  }
+}
@@ -0,0 +1,23 @@
+import type { AuthUser, AuthSessionRecord } from '../config/auth.config';
+import type { IUserAuthorization } from '../models/rbac.types';
+import type { IPrincipal } from '../models/auth.types';
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Authenticated better-auth user, set by requireAuth */
+      user?: AuthUser;
+      /** How the caller authenticated, set by requireAuth */
+      principal?: IPrincipal;
+      /** Active better-auth session, set by requireAuth for session tokens only */
+      session?: AuthSessionRecord;
+      /**
+       * Roles and permissions, populated lazily by requireRole/requirePermission,
+       * or up front from the key's scopes for API keys
+       */
+      authorization?: IUserAuthorization;
+    }
+  }
+}
+
+export {};
@@ -0,0 +1,17 @@
+import { ApiKeyRow } from '../db/schema';
+import { IApiKeyDto } from '../models/api-key.types';
+
+/**
+ * Response mapper for API keys; the key hash and owner never reach clients
+ */
+export function toApiKeyDto(row: ApiKeyRow): IApiKeyDto {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: row.scopes,
+    expiresAt: row.expiresAt,
+    lastUsedAt: row.lastUsedAt,
+    createdAt: row.createdAt,
+  };
+}
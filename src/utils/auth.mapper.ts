@@ -0,0 +1,56 @@
+import { AuthSessionRecord, AuthUser } from '../config/auth.config';
+import { IActiveSessionDto, IAuthResponse, IAuthSessionDto, IAuthUserDto, ISessionInfoDto } from '../models/auth.types';
+
+/**
+ * Response mappers for better-auth entities
+ * 
+ * Only the listed fields reach clients; anything better-auth adds to its user or
+ * session models stays internal until it is mapped here explicitly.
+ */
+
+export function toAuthUserDto(user: AuthUser): IAuthUserDto {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    emailVerified: user.emailVerified,
+    image: user.image ?? null,
+  };
+}
+
+export function toAuthSessionDto(session: Pick<AuthSessionRecord, 'token' | 'expiresAt'>): IAuthSessionDto {
+  return {
+    token: session.token,
+    expiresAt: new Date(session.expiresAt),
+  };
+}
+
+export function toSessionInfoDto(session: AuthSessionRecord): ISessionInfoDto {
+  return {
+    id: session.id,
+    expiresAt: new Date(session.expiresAt),
+    createdAt: new Date(session.createdAt),
+    ipAddress: session.ipAddress ?? null,
+    userAgent: session.userAgent ?? null,
+  };
+}
+
+export function toActiveSessionDto(session: AuthSessionRecord, currentSessionId: string): IActiveSessionDto {
+  return {
+    ...toSessionInfoDto(session),
+    lastSeenAt: new Date(session.updatedAt),
+    current: session.id === currentSessionId,
+  };
+}
+
+export function toAuthResponse(
+  user: AuthUser,
+  session: AuthSessionRecord | null,
+  refreshToken: IAuthSessionDto | null
+): IAuthResponse {
+  return {
+    user: toAuthUserDto(user),
+    session: session ? toAuthSessionDto(session) : null,
+    refreshToken,
+  };
+}
@@ -0,0 +1,119 @@
+import type { Logger } from 'pino';
+import { DatabaseError } from '../models/database.types';
+
+export interface BatchWriterOptions {
+  /** Items are written once this many are queued... */
+  batchSize: number;
+  /** ...or this long after the first one was queued */
+  flushIntervalMs: number;
+  /** Upper bound on queued items while the store is unavailable; the oldest are dropped beyond it */
+  maxQueueSize: number;
+}
+
+/**
+ * Queues items in memory and writes them in batches, off the request path
+ * 
+ * push() never throws and never waits for the store. A failed write is logged
+ * and its items are put back in front of the queue for the next attempt, so an
+ * outage delays writes instead of losing them, up to maxQueueSize. A batch the
+ * store rejects outright (a permanent DatabaseError) is logged and dropped, as
+ * retrying it would block everything queued behind it.
+ * 
+ * @example
+ * const writer = new BatchWriter((batch) => repository.insertMany(batch), options, log);
+ * writer.push(event);
+ * await writer.flush(); // on shutdown
+ */
+export class BatchWriter<T> {
+  private queue: T[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+
+  /**
+   * @param write - Persists one batch; may throw, and must not fail when some
+   *                of the items were already written by an earlier attempt
+   * @param options - Batching and queue limits
+   * @param log - Logger for write failures and dropped items
+   */
+  constructor(
+    private write: (batch: T[]) => Promise<void>,
+    private options: BatchWriterOptions,
+    private log: Logger
+  ) {}
+
+  push(item: T): void {
+    this.queue.push(item);
+    this.trimQueue();
+
+    if (this.queue.length >= this.options.batchSize) {
+      void this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Write everything queued so far
+   * 
+   * Called on shutdown so queued items are not lost.
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    // One write at a time; items queued meanwhile go in the next batch
+    while (this.flushing) {
+      await this.flushing;
+    }
+
+    if (this.queue.length === 0) {
+      return;
+    }
+
+    const batch = this.queue.splice(0, this.queue.length);
+    this.flushing = this.writeBatch(batch).finally(() => {
+      this.flushing = null;
+    });
+
+    await this.flushing;
+  }
+
+  private async writeBatch(batch: T[]): Promise<void> {
+    try {
+      await this.write(batch);
+    } catch (error) {
+      if (error instanceof DatabaseError && error.category === 'permanent') {
+        this.log.error({ err: error, items: batch.length }, 'Batch rejected by the store, dropped');
+        return;
+      }
+
+      this.log.error({ err: error, items: batch.length }, 'Batch write failed, will retry');
+      // Put them back in front of anything queued during the write and retry later
+      this.queue.unshift(...batch);
+      this.trimQueue();
+      this.scheduleFlush();
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => void this.flush(), this.options.flushIntervalMs);
+      // Never keep the process alive just to write a batch
+      this.flushTimer.unref();
+    }
+  }
+
+  /**
+   * Drop the oldest items beyond maxQueueSize
+   */
+  private trimQueue(): void {
+    const overflow = this.queue.length - this.options.maxQueueSize;
+
+    if (overflow > 0) {
+      this.queue.splice(0, overflow);
+      this.log.error({ dropped: overflow }, 'Batch queue full, oldest items dropped');
+    }
+  }
+}
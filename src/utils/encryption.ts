@@ -0,0 +1,33 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+/**
+ * Derive a 256-bit key from a configured secret of any length
+ */
+export function deriveKey(secret: string): Buffer {
+  return createHash('sha256').update(secret).digest();
+}
+
+/**
+ * AES-256-GCM encrypt, returning `iv.authTag.ciphertext` in base64url
+ */
+export function encrypt(plaintext: string, key: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.');
+}
+
+/**
+ * @throws {Error} If the payload was tampered with or encrypted under another key
+ */
+export function decrypt(payload: string, key: Buffer): string {
+  const [iv, authTag, ciphertext] = payload.split('.').map((part) => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,192 @@
+import { ValidationResult } from '../models/database.types';
+
+interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+const TRUE_VALUES = ['true', '1', 'yes', 'on'];
+const FALSE_VALUES = ['false', '0', 'no', 'off'];
+
+/**
+ * Typed access to environment variables
+ * 
+ * Unset and empty variables take the given default. A malformed value also
+ * takes the default and is recorded in problems, so every mistake can be
+ * reported at once instead of failing on the first.
+ * 
+ * @example
+ * ```typescript
+ * const env = new EnvReader(process.env);
+ * const port = env.int('PORT', 3000, { min: 1, max: 65535 });
+ * 
+ * if (env.problems.length > 0) {
+ *   // PORT: expected an integer between 1 and 65535, got "abc"
+ * }
+ * ```
+ */
+export class EnvReader {
+  private readonly problemsByName = new Map<string, string>();
+
+  constructor(private readonly env: NodeJS.ProcessEnv) {}
+
+  /**
+   * Malformed values, one per variable
+   */
+  get problems(): string[] {
+    return [...this.problemsByName.values()];
+  }
+
+  /**
+   * Whether a variable is set to a non-empty value
+   */
+  has(name: string): boolean {
+    return this.raw(name) !== undefined;
+  }
+
+  string(name: string, fallback: string): string {
+    return this.raw(name) ?? fallback;
+  }
+
+  optional(name: string): string | undefined {
+    return this.raw(name);
+  }
+
+  int(name: string, fallback: number, range: NumberRange = {}): number {
+    return this.number(name, fallback, range, true);
+  }
+
+  float(name: string, fallback: number, range: NumberRange = {}): number {
+    return this.number(name, fallback, range, false);
+  }
+
+  boolean(name: string, fallback: boolean): boolean {
+    const value = this.raw(name);
+
+    if (value === undefined) {
+      return fallback;
+    }
+
+    if (TRUE_VALUES.includes(value.toLowerCase())) {
+      return true;
+    }
+
+    if (FALSE_VALUES.includes(value.toLowerCase())) {
+      return false;
+    }
+
+    return this.reject(name, 'expected true or false', value, fallback);
+  }
+
+  oneOf<T extends string>(name: string, allowed: readonly T[], fallback: T): T {
+    const value = this.raw(name);
+
+    if (value === undefined) {
+      return fallback;
+    }
+
+    if ((allowed as readonly string[]).includes(value)) {
+      return value as T;
+    }
+
+    return this.reject(name, `expected one of ${allowed.join(', ')}`, value, fallback);
+  }
+
+  /**
+   * Separated list with blank entries removed
+   */
+  list(name: string, fallback: string[], separator: string | RegExp = ','): string[] {
+    const value = this.raw(name);
+
+    if (value === undefined) {
+      return fallback;
+    }
+
+    return value.split(separator).map((item) => item.trim()).filter(Boolean);
+  }
+
+  /**
+   * Absolute http(s) URL without a trailing slash
+   */
+  url(name: string, fallback: string): string {
+    const value = this.raw(name);
+
+    if (value === undefined) {
+      return fallback;
+    }
+
+    try {
+      const { protocol } = new URL(value);
+
+      if (protocol === 'http:' || protocol === 'https:') {
+        return value.replace(/\/+$/, '');
+      }
+    } catch {
+      // Reported below
+    }
+
+    return this.reject(name, 'expected an http(s) URL', value, fallback);
+  }
+
+  /**
+   * Value checked by a format validator, such as validateDatabaseUrl
+   * 
+   * An invalid value is reported but still returned, so that outside strict
+   * profiles the component using it fails with the same message. Values are
+   * not echoed in the problem, since connection strings carry credentials.
+   */
+  validated(name: string, validate: (value: string) => ValidationResult): string | undefined {
+    const value = this.raw(name);
+
+    if (value !== undefined) {
+      const validation = validate(value);
+
+      if (!validation.valid) {
+        this.report(name, validation.error || 'invalid value');
+      }
+    }
+
+    return value;
+  }
+
+  /**
+   * Record a problem found by the caller, such as a value that conflicts with another
+   */
+  report(name: string, problem: string): void {
+    if (!this.problemsByName.has(name)) {
+      this.problemsByName.set(name, `${name}: ${problem}`);
+    }
+  }
+
+  private number(name: string, fallback: number, { min, max }: NumberRange, integer: boolean): number {
+    const value = this.raw(name);
+
+    if (value === undefined) {
+      return fallback;
+    }
+
+    const parsed = Number(value);
+    const inRange = (min === undefined || parsed >= min) && (max === undefined || parsed <= max);
+
+    if (Number.isFinite(parsed) && (!integer || Number.isInteger(parsed)) && inRange) {
+      return parsed;
+    }
+
+    const kind = integer ? 'an integer' : 'a number';
+    const bounds = min !== undefined && max !== undefined
+      ? ` between ${min} and ${max}`
+      : min !== undefined ? ` of at least ${min}` : max !== undefined ? ` of at most ${max}` : '';
+
+    return this.reject(name, `expected ${kind}${bounds}`, value, fallback);
+  }
+
+  private reject<T>(name: string, expected: string, value: string, fallback: T): T {
+    this.report(name, `${expected}, got "${value}"`);
+    return fallback;
+  }
+
+  private raw(name: string): string | undefined {
+    const value = this.env[name]?.trim();
+    return value ? value : undefined;
+  }
+}
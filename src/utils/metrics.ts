@@ -0,0 +1,63 @@
+import { collectDefaultMetrics, Counter, Histogram, Registry } from 'prom-client';
+import { MetricsDatabase, MetricsDatabaseRole } from '../models/metrics.types';
+
+/**
+ * Registry behind GET /metrics
+ * 
+ * Counters and histograms are defined here so any layer can update them
+ * without depending on the metrics service. Gauges that read live state, such
+ * as pool usage, are registered by MetricsService.
+ */
+export const metricsRegistry = new Registry();
+
+// CPU, memory, event loop lag, GC and handle counts
+collectDefaultMetrics({ register: metricsRegistry });
+
+export const httpRequestDuration = new Histogram<'method' | 'route' | 'status_code'>({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request duration by route pattern and status code',
+  labelNames: ['method', 'route', 'status_code'],
+  registers: [metricsRegistry],
+});
+
+export const dbConnectionAttempts = new Counter<'database' | 'role' | 'outcome'>({
+  name: 'db_connection_attempts_total',
+  help: 'Database connection attempts, including retries',
+  labelNames: ['database', 'role', 'outcome'],
+  registers: [metricsRegistry],
+});
+
+export const dbReconnects = new Counter<'database' | 'role' | 'outcome'>({
+  name: 'db_reconnects_total',
+  help: 'Background reconnection runs after a lost or failed connection',
+  labelNames: ['database', 'role', 'outcome'],
+  registers: [metricsRegistry],
+});
+
+export const dbConnectionsLost = new Counter<'database' | 'role'>({
+  name: 'db_connections_lost_total',
+  help: 'Established connections found broken by a health probe',
+  labelNames: ['database', 'role'],
+  registers: [metricsRegistry],
+});
+
+export const authEvents = new Counter<'event' | 'outcome'>({
+  name: 'auth_events_total',
+  help: 'Security events by audit event type and outcome',
+  labelNames: ['event', 'outcome'],
+  registers: [metricsRegistry],
+});
+
+/**
+ * Count a connection attempt or reconnection run
+ * 
+ * @param counter - dbConnectionAttempts or dbReconnects
+ */
+export function recordConnection(
+  counter: Counter<'database' | 'role' | 'outcome'>,
+  database: MetricsDatabase,
+  role: MetricsDatabaseRole,
+  success: boolean
+): void {
+  counter.inc({ database, role, outcome: success ? 'success' : 'failure' });
+}
@@ -0,0 +1,50 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { RequestContext } from '../models/request-context.types';
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs a function with the given request context bound to its async call chain
+ * 
+ * @param context - Context for the current request
+ * @param fn - Function to execute inside the context
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Get the context of the request currently being handled
+ * 
+ * @returns The active RequestContext, or undefined outside of a request
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Attach the authenticated user to the current request context
+ * 
+ * @param userId - Id of the authenticated user
+ */
+export function setRequestUser(userId: string): void {
+  const context = storage.getStore();
+
+  if (context) {
+    context.userId = userId;
+  }
+}
+
+/**
+ * Send the rest of the current request's reads to the primary database
+ * 
+ * Called when the request writes, so it reads its own writes instead of a
+ * replica that may lag behind.
+ */
+export function pinRequestToPrimary(): void {
+  const context = storage.getStore();
+
+  if (context) {
+    context.pinnedToPrimary = true;
+  }
+}
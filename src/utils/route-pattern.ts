@@ -0,0 +1,21 @@
+import { Request } from 'express';
+
+/**
+ * Route pattern that handled the request, e.g. `/api/users/:userId/roles`
+ * 
+ * Used instead of the raw path wherever requests are grouped by route, so ids
+ * in URLs do not create a label or key per request.
+ * 
+ * The router resets req.baseUrl when an error propagates out of it, so failed
+ * requests to a mounted router are labelled with the route pattern alone, e.g.
+ * `/:userId/roles`. Guessing the mount path from the URL would give routes
+ * with wildcards a different label for every path depth.
+ */
+export function routePattern(req: Request): string {
+  if (!req.route) {
+    // Unmatched paths are not recorded verbatim to keep the route set small
+    return '(unmatched)';
+  }
+
+  return `${req.baseUrl}${String(req.route.path)}`;
+}
@@ -0,0 +1,17 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Opaque, URL-safe random token
+ * 
+ * @param bytes - Entropy in bytes (default: 32)
+ */
+export function generateToken(bytes = 32): string {
+  return randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * SHA-256 hex digest used to store tokens, so a leaked table cannot be replayed
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,72 @@
+import { Span, SpanStatusCode, trace } from '@opentelemetry/api';
+import { ATTR_ERROR_TYPE } from '@opentelemetry/semantic-conventions';
+
+/**
+ * Tracer for application spans
+ * 
+ * A no-op until startTracing() registers a provider, so instrumented code
+ * costs next to nothing with tracing disabled.
+ */
+export const tracer = trace.getTracer('express-backend');
+
+/**
+ * Mark a span as failed, with the error's code as error.type
+ */
+export function recordSpanError(span: Span, error: unknown): void {
+  if (!(error instanceof Error)) {
+    span.setStatus({ code: SpanStatusCode.ERROR, message: String(error) });
+    return;
+  }
+
+  const code = (error as Error & { code?: unknown }).code;
+
+  span.recordException(error);
+  span.setAttribute(ATTR_ERROR_TYPE, typeof code === 'string' ? code : error.name);
+  span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+}
+
+/**
+ * Run work in a child span of the active one
+ * 
+ * The span is active inside work, ends when work settles and records the error
+ * if it throws.
+ * 
+ * @param name - Span name, e.g. `AuthService.signIn`
+ * @param work - Receives the span to add attributes
+ */
+export async function withSpan<T>(name: string, work: (span: Span) => Promise<T>): Promise<T> {
+  return tracer.startActiveSpan(name, async (span) => {
+    try {
+      return await work(span);
+    } catch (error) {
+      recordSpanError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Wrap every async method of an object in a span named `<component>.<method>`
+ * 
+ * Call from the constructor. Synchronous methods are left alone so their
+ * return types do not change.
+ * 
+ * @param target - Instance whose prototype methods are wrapped
+ * @param component - Span name prefix, normally the class name
+ */
+export function traceMethods(target: object, component: string): void {
+  const prototype = Object.getPrototypeOf(target);
+  const instance = target as Record<string, unknown>;
+
+  for (const name of Object.getOwnPropertyNames(prototype)) {
+    const method = prototype[name];
+
+    if (name === 'constructor' || typeof method !== 'function' || method.constructor.name !== 'AsyncFunction') {
+      continue;
+    }
+
+    instance[name] = (...args: unknown[]) => withSpan(`${component}.${name}`, () => method.apply(target, args));
+  }
+}
@@ -0,0 +1,224 @@
+import {
+  FieldRule,
+  IValidationErrorDetail,
+  ObjectSchema,
+  ObjectValidationResult,
+  RequestLocation,
+  StringFormat,
+} from '../models/validation.types';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Validates an object against a declarative schema
+ * 
+ * Only fields declared in the schema are copied to the returned value; unknown
+ * fields are stripped. Empty strings on nullable fields become null. Query and
+ * path parameters always arrive as strings, so for those locations numeric and
+ * boolean strings are coerced before checking.
+ * 
+ * @param schema - Field rules keyed by field name
+ * @param input - Raw object from the request
+ * @param location - Request part being validated, used in error details
+ * @returns The sanitized value and the list of failed checks
+ */
+export function validateObject<T>(
+  schema: ObjectSchema<T>,
+  input: unknown,
+  location: RequestLocation
+): ObjectValidationResult<T> {
+  const errors: IValidationErrorDetail[] = [];
+  const value: Record<string, unknown> = {};
+
+  if (input !== undefined && (typeof input !== 'object' || input === null || Array.isArray(input))) {
+    errors.push({ location, field: '', message: `Request ${location} must be an object` });
+    return { value: value as T, errors };
+  }
+
+  const source = (input ?? {}) as Record<string, unknown>;
+  const coerce = location !== 'body';
+
+  for (const [field, rule] of Object.entries<FieldRule>(schema)) {
+    const raw = source[field];
+
+    if (raw === undefined || (raw === '' && rule.type !== 'string')) {
+      if (rule.required) {
+        errors.push({ location, field, message: `${field} is required` });
+      }
+      continue;
+    }
+
+    if (raw === null) {
+      if (!rule.nullable) {
+        errors.push({ location, field, message: `${field} must not be null` });
+      } else {
+        value[field] = null;
+      }
+      continue;
+    }
+
+    const normalized = normalizeValue(raw, rule, coerce);
+
+    // An emptied nullable string clears the field
+    if (normalized === '' && rule.nullable) {
+      value[field] = null;
+      continue;
+    }
+
+    const message = checkField(field, normalized, rule);
+
+    if (message) {
+      errors.push({ location, field, message });
+    } else {
+      value[field] = normalized;
+    }
+  }
+
+  return { value: value as T, errors };
+}
+
+function normalizeValue(raw: unknown, rule: FieldRule, coerce: boolean): unknown {
+  let value = raw;
+
+  // Copied so that normalizing items never mutates the raw request
+  if (Array.isArray(value)) {
+    return [...value];
+  }
+
+  if (typeof value === 'string') {
+    if (rule.trim) value = value.trim();
+    if (rule.lowercase) value = (value as string).toLowerCase();
+  }
+
+  if (coerce && typeof value === 'string') {
+    if ((rule.type === 'number' || rule.type === 'integer') && value.trim() !== '' && !isNaN(Number(value))) {
+      return Number(value);
+    }
+    if (rule.type === 'boolean' && (value === 'true' || value === 'false')) {
+      return value === 'true';
+    }
+  }
+
+  return value;
+}
+
+function checkField(field: string, value: unknown, rule: FieldRule): string | undefined {
+  const typeError = checkType(field, value, rule);
+  if (typeError) {
+    return typeError;
+  }
+
+  if (typeof value === 'string') {
+    const stringError = checkString(field, value, rule);
+    if (stringError) {
+      return stringError;
+    }
+  }
+
+  if (Array.isArray(value)) {
+    const arrayError = checkArray(field, value, rule);
+    if (arrayError) {
+      return arrayError;
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (rule.min !== undefined && value < rule.min) {
+      return `${field} must be at least ${rule.min}`;
+    }
+    if (rule.max !== undefined && value > rule.max) {
+      return `${field} must be at most ${rule.max}`;
+    }
+  }
+
+  if (rule.enum && !rule.enum.includes(value as string | number)) {
+    return `${field} must be one of: ${rule.enum.join(', ')}`;
+  }
+
+  if (rule.validate) {
+    const customError = rule.validate(value);
+    if (customError) {
+      return rule.message || customError;
+    }
+  }
+
+  return undefined;
+}
+
+function checkType(field: string, value: unknown, rule: FieldRule): string | undefined {
+  switch (rule.type) {
+    case 'string':
+      return typeof value === 'string' ? undefined : `${field} must be a string`;
+    case 'number':
+      return typeof value === 'number' && isFinite(value) ? undefined : `${field} must be a number`;
+    case 'integer':
+      return Number.isInteger(value) ? undefined : `${field} must be an integer`;
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : `${field} must be a boolean`;
+    case 'array':
+      return Array.isArray(value) ? undefined : `${field} must be an array`;
+  }
+}
+
+function checkString(field: string, value: string, rule: FieldRule): string | undefined {
+  if (rule.minLength !== undefined && value.length < rule.minLength) {
+    return `${field} must be at least ${rule.minLength} characters long`;
+  }
+
+  if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+    return `${field} must be at most ${rule.maxLength} characters long`;
+  }
+
+  if (rule.pattern && !rule.pattern.test(value)) {
+    return rule.message || `${field} has an invalid format`;
+  }
+
+  if (rule.format && !matchesFormat(value, rule.format)) {
+    return rule.message || `${field} must be a valid ${rule.format}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Checks the length of an array, then normalizes (in the copy made by
+ * normalizeValue) and checks each item
+ */
+function checkArray(field: string, value: unknown[], rule: FieldRule): string | undefined {
+  if (rule.minLength !== undefined && value.length < rule.minLength) {
+    return `${field} must contain at least ${rule.minLength} items`;
+  }
+
+  if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+    return `${field} must contain at most ${rule.maxLength} items`;
+  }
+
+  if (rule.items) {
+    for (let index = 0; index < value.length; index++) {
+      value[index] = normalizeValue(value[index], rule.items, false);
+      const itemError = checkField(`${field}[${index}]`, value[index], rule.items);
+      if (itemError) {
+        return itemError;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function matchesFormat(value: string, format: StringFormat): boolean {
+  switch (format) {
+    case 'email':
+      return EMAIL_PATTERN.test(value);
+    case 'uuid':
+      return UUID_PATTERN.test(value);
+    case 'url':
+      try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+      } catch {
+        return false;
+      }
+  }
+}
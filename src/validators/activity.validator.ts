@@ -0,0 +1,11 @@
+import { ObjectSchema } from '../models/validation.types';
+import { IActivityParams, IActivityQuery } from '../models/activity.types';
+
+export const activityQuerySchema: ObjectSchema<IActivityQuery> = {
+  days: { type: 'integer', min: 1, max: 90 },
+  limit: { type: 'integer', min: 1, max: 100 },
+};
+
+export const activityParamsSchema: ObjectSchema<IActivityParams> = {
+  userId: { type: 'string', required: true, minLength: 1, maxLength: 255 },
+};
@@ -0,0 +1,19 @@
+import { ObjectSchema } from '../models/validation.types';
+import { IApiKeyParams, ICreateApiKeyRequest } from '../models/api-key.types';
+
+const MAX_API_KEY_LIFETIME_DAYS = 3650;
+
+export const createApiKeySchema: ObjectSchema<ICreateApiKeyRequest> = {
+  name: { type: 'string', required: true, trim: true, minLength: 1, maxLength: 100 },
+  scopes: {
+    type: 'array',
+    required: true,
+    maxLength: 50,
+    items: { type: 'string', trim: true, pattern: /^[a-z][a-z0-9_-]*:[a-z][a-z0-9_-]*$/, message: 'scopes must be permission names' },
+  },
+  expiresInDays: { type: 'integer', min: 1, max: MAX_API_KEY_LIFETIME_DAYS },
+};
+
+export const apiKeyParamsSchema: ObjectSchema<IApiKeyParams> = {
+  id: { type: 'string', required: true, format: 'uuid', message: 'id must be an API key id' },
+};
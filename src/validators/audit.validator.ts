@@ -0,0 +1,24 @@
+import { ObjectSchema } from '../models/validation.types';
+import { AUDIT_EVENTS, AUDIT_OUTCOMES, IAuditQuery } from '../models/audit.types';
+
+const ISO_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+const timestampRule = (field: string) => ({
+  type: 'string',
+  trim: true,
+  pattern: ISO_TIMESTAMP_PATTERN,
+  // The pattern alone lets through impossible dates such as 2024-13-45
+  validate: (value: unknown) => (Number.isNaN(Date.parse(value as string)) ? 'invalid date' : undefined),
+  message: `${field} must be an ISO 8601 timestamp`,
+} as const);
+
+export const auditQuerySchema: ObjectSchema<IAuditQuery> = {
+  type: { type: 'string', enum: Object.values(AUDIT_EVENTS) },
+  outcome: { type: 'string', enum: AUDIT_OUTCOMES },
+  actorId: { type: 'string', trim: true, minLength: 1, maxLength: 255 },
+  targetId: { type: 'string', trim: true, minLength: 1, maxLength: 255 },
+  from: timestampRule('from'),
+  to: timestampRule('to'),
+  page: { type: 'integer', min: 1 },
+  pageSize: { type: 'integer', min: 1, max: 200 },
+};
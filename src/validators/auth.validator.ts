@@ -0,0 +1,51 @@
+import { ObjectSchema } from '../models/validation.types';
+import {
+  ISignUpRequest,
+  ISignInRequest,
+  IForgotPasswordRequest,
+  IResetPasswordRequest,
+  ISendVerificationRequest,
+  IVerifyEmailRequest,
+  ISessionParams,
+  IRefreshRequest,
+} from '../models/auth.types';
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_PASSWORD_LENGTH = 128;
+
+export const signUpSchema: ObjectSchema<ISignUpRequest> = {
+  email: { type: 'string', required: true, trim: true, lowercase: true, format: 'email', maxLength: 254 },
+  password: { type: 'string', required: true, minLength: MIN_PASSWORD_LENGTH, maxLength: MAX_PASSWORD_LENGTH },
+  name: { type: 'string', trim: true, maxLength: 100 },
+};
+
+export const signInSchema: ObjectSchema<ISignInRequest> = {
+  email: { type: 'string', required: true, trim: true, lowercase: true, format: 'email', maxLength: 254 },
+  password: { type: 'string', required: true, maxLength: MAX_PASSWORD_LENGTH },
+};
+
+export const forgotPasswordSchema: ObjectSchema<IForgotPasswordRequest> = {
+  email: { type: 'string', required: true, trim: true, lowercase: true, format: 'email', maxLength: 254 },
+};
+
+export const resetPasswordSchema: ObjectSchema<IResetPasswordRequest> = {
+  token: { type: 'string', required: true, trim: true, maxLength: 512 },
+  newPassword: { type: 'string', required: true, minLength: MIN_PASSWORD_LENGTH, maxLength: MAX_PASSWORD_LENGTH },
+};
+
+export const sendVerificationSchema: ObjectSchema<ISendVerificationRequest> = {
+  email: { type: 'string', required: true, trim: true, lowercase: true, format: 'email', maxLength: 254 },
+};
+
+/** Used for both the JSON body and the ?token= query of the emailed link */
+export const verifyEmailSchema: ObjectSchema<IVerifyEmailRequest> = {
+  token: { type: 'string', required: true, trim: true, maxLength: 2048 },
+};
+
+export const sessionParamsSchema: ObjectSchema<ISessionParams> = {
+  id: { type: 'string', required: true, minLength: 1, maxLength: 255 },
+};
+
+export const refreshSchema: ObjectSchema<IRefreshRequest> = {
+  refreshToken: { type: 'string', required: true, trim: true, minLength: 1, maxLength: 512 },
+};
@@ -0,0 +1,15 @@
+import { ObjectSchema } from '../models/validation.types';
+import { IOAuthCompleteQuery, IOAuthProviderParams } from '../models/oauth.types';
+
+export const oauthProviderParamsSchema: ObjectSchema<IOAuthProviderParams> = {
+  provider: {
+    type: 'string',
+    required: true,
+    pattern: /^[a-z0-9][a-z0-9_-]{0,63}$/,
+    message: 'provider must be a provider id',
+  },
+};
+
+export const oauthCompleteQuerySchema: ObjectSchema<IOAuthCompleteQuery> = {
+  error: { type: 'string', trim: true, maxLength: 200 },
+};
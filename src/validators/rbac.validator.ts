@@ -0,0 +1,25 @@
+import { ObjectSchema } from '../models/validation.types';
+import { IGrantRoleRequest, IRevokeRoleParams, IUserRoleParams } from '../models/rbac.types';
+
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_-]{0,63}$/;
+
+const userIdRule = { type: 'string', required: true, minLength: 1, maxLength: 255 } as const;
+const roleRule = {
+  type: 'string',
+  required: true,
+  pattern: ROLE_NAME_PATTERN,
+  message: 'role must be a lowercase role name',
+} as const;
+
+export const userRoleParamsSchema: ObjectSchema<IUserRoleParams> = {
+  userId: userIdRule,
+};
+
+export const revokeRoleParamsSchema: ObjectSchema<IRevokeRoleParams> = {
+  userId: userIdRule,
+  role: roleRule,
+};
+
+export const grantRoleSchema: ObjectSchema<IGrantRoleRequest> = {
+  role: { ...roleRule, trim: true, lowercase: true },
+};
@@ -0,0 +1,27 @@
+import { ObjectSchema } from '../models/validation.types';
+import { ITwoFactorCodeRequest, ITwoFactorVerifyRequest } from '../models/two-factor.types';
+
+const totpCodeRule = {
+  type: 'string',
+  trim: true,
+  pattern: /^\d{6}$/,
+  message: 'code must be a 6-digit number',
+} as const;
+
+const recoveryCodeRule = { type: 'string', trim: true, minLength: 10, maxLength: 32 } as const;
+
+export const twoFactorCodeSchema: ObjectSchema<ITwoFactorCodeRequest> = {
+  code: { ...totpCodeRule, required: true },
+};
+
+/** Either code or recoveryCode is required; the service enforces that one is present */
+export const twoFactorDisableSchema: ObjectSchema<Omit<ITwoFactorVerifyRequest, 'challengeToken'>> = {
+  code: totpCodeRule,
+  recoveryCode: recoveryCodeRule,
+};
+
+export const twoFactorVerifySchema: ObjectSchema<ITwoFactorVerifyRequest> = {
+  challengeToken: { type: 'string', required: true, trim: true, minLength: 1, maxLength: 512 },
+  code: totpCodeRule,
+  recoveryCode: recoveryCodeRule,
+};
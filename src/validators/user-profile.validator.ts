@@ -0,0 +1,20 @@
+import { ObjectSchema } from '../models/validation.types';
+import { IUpdateUserProfileRequest } from '../models/user-profile.types';
+
+const LOCALE_PATTERN = /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/;
+
+function isValidTimezone(value: unknown): string | undefined {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value as string });
+    return undefined;
+  } catch {
+    return 'timezone must be a valid IANA time zone, e.g. Europe/Berlin';
+  }
+}
+
+export const updateUserProfileSchema: ObjectSchema<IUpdateUserProfileRequest> = {
+  displayName: { type: 'string', nullable: true, trim: true, maxLength: 100 },
+  avatarUrl: { type: 'string', nullable: true, trim: true, format: 'url', maxLength: 2048, message: 'avatarUrl must be a valid http(s) URL' },
+  locale: { type: 'string', nullable: true, trim: true, maxLength: 35, pattern: LOCALE_PATTERN, message: 'locale must be a BCP 47 language tag, e.g. en-US' },
+  timezone: { type: 'string', nullable: true, trim: true, maxLength: 64, validate: isValidTimezone },
+};